@@ -6,11 +6,144 @@
         "monaco-editor-container"
     );
     const initialMessageElement = document.querySelector(".initial-message");
+    const searchModeSelect = document.getElementById("search-mode-select");
+    const callDirectionToggle = document.getElementById(
+        "call-direction-toggle"
+    );
+    const filterWritesToggle = document.getElementById("filter-writes-toggle");
+    const filterReadsToggle = document.getElementById("filter-reads-toggle");
+    const filterBar = document.getElementById("reference-filter-bar");
+    const filterTextInput = document.getElementById("filter-text-input");
+    const filterGlobInput = document.getElementById("filter-glob-input");
+    const hideTestsToggle = document.getElementById("hide-tests-toggle");
+    const changedOnlyToggle = document.getElementById("changed-only-toggle");
+    const hideReviewedToggle = document.getElementById("hide-reviewed-toggle");
+    const referenceCountElement = document.getElementById("reference-count");
+    const groupingSelect = document.getElementById("grouping-select");
+    const historyBackButton = document.getElementById("history-back");
+    const historyForwardButton = document.getElementById("history-forward");
+    const historyToggle = document.getElementById("history-toggle");
+    const historyDropdown = document.getElementById("history-dropdown");
+    const historyList = document.getElementById("history-list");
+    const historyClearButton = document.getElementById("history-clear");
+    const resultTabsElement = document.getElementById("result-tabs");
+    const pinTabToggle = document.getElementById("pin-tab-toggle");
+    const referenceTreeContainer = document.getElementById(
+        "reference-tree-container"
+    );
+    const staleBanner = document.getElementById("stale-banner");
+    const rerunSearchButton = document.getElementById("rerun-search");
+    const selectionBar = document.getElementById("selection-bar");
+    const selectionCountElement = document.getElementById("selection-count");
+    const replaceSelectedButton = document.getElementById("replace-selected");
+    const reviewSelectedButton = document.getElementById("review-selected");
+    const unreviewSelectedButton = document.getElementById("unreview-selected");
+    const clearSelectionButton = document.getElementById("clear-selection");
+    const previewEditToggle = document.getElementById("preview-edit-toggle");
+    const exportResultsButton = document.getElementById("export-results");
+    const snapshotsMenuButton = document.getElementById("snapshots-menu");
+    const diffScopeToggle = document.getElementById("diff-scope-toggle");
+    const initialMessageText = initialMessageElement
+        ? initialMessageElement.textContent
+        : "";
     let monacoEditor;
-    let lastClickedLeafTime = 0;
-    const DOUBLE_CLICK_THRESHOLD = 300; // ms
     let currentMonacoFileUri = "";
-    let currentLineHighlightDecorationIds = [];
+    let referenceDecorationIds = []; // Highlights of the result references in the previewed file
+    let currentMonacoRevealLine = 1;
+    let currentCallDirection = "incoming";
+    let currentAccessFilter = "all";
+    let filterDebounceTimer;
+    let currentTabId;
+    let previewEditable = false;
+    let currentMonacoVersion; // Document version the preview content corresponds to
+    let pendingPreviewEdits = []; // Monaco change batches not yet sent to the extension
+    let previewEditInFlight = false;
+    let applyingRemoteContent = false; // Suppresses write-back while we set content ourselves
+    const tabUiStates = new Map(); // tab id -> expansion, selection, scroll and Monaco view state
+    let pendingTreeRestore; // Applied by the next tree update after a tab switch
+    let pendingMonacoRestore; // Applied by the next Monaco update after a tab switch
+    const TREE_ROW_HEIGHT = 22; // px, keep in sync with .tree-row in style.css
+    const TREE_INDENT = 18; // px per nesting level
+    const TREE_OVERSCAN_ROWS = 10; // Rendered above and below the viewport for smooth scrolling
+    let treeRoots = []; // Reference tree or call hierarchy roots as sent by the extension
+    let expandedKeys = new Set();
+    let selectedKey; // Leaf shown in the preview
+    let focusedKey; // Row the keyboard acts on
+    let checkedLeafIds = new Set(); // Reference leaves ticked for "Replace in Selected"
+    let isCallHierarchyList = false;
+    // referencesContext.* settings, replaced by the extension's on startup and on every change
+    let panelSettings = {
+        autoExpand: "all",
+        autoPreviewFirstResult: true,
+        openReferenceOn: "doubleClick",
+        preview: { minimap: false, wordWrap: "off", lineNumbers: "on" },
+    };
+    let checkAnchorKey; // Last clicked leaf, where a shift-click range starts
+    let nextTreeRowId = 0; // Element ids of rendered rows, for aria-activedescendant
+    let typeAheadText = "";
+    let typeAheadTimer;
+    let visibleRows = []; // Flattened rows of all nodes whose ancestors are expanded
+    const visibleRowsByKey = new Map();
+    const renderedRows = new Map(); // row key -> { element, className, html } currently in the DOM
+    const callNodesById = new Map(); // Call hierarchy nodes, for attaching lazily loaded children
+    let treeRenderScheduled = false;
+    const PREVIEW_THEME_NAME = "vscode-preview";
+    // Monaco color ids read from the matching --vscode-* CSS variables of the webview
+    const PREVIEW_THEME_COLORS = [
+        "editor.background",
+        "editor.foreground",
+        "editorLineNumber.foreground",
+        "editorLineNumber.activeForeground",
+        "editorCursor.foreground",
+        "editor.selectionBackground",
+        "editor.selectionForeground",
+        "editor.inactiveSelectionBackground",
+        "editor.selectionHighlightBackground",
+        "editor.wordHighlightBackground",
+        "editor.wordHighlightStrongBackground",
+        "editor.findMatchBackground",
+        "editor.findMatchHighlightBackground",
+        "editor.lineHighlightBackground",
+        "editor.lineHighlightBorder",
+        "editorIndentGuide.background",
+        "editorIndentGuide.background1",
+        "editorIndentGuide.activeBackground",
+        "editorIndentGuide.activeBackground1",
+        "editorWhitespace.foreground",
+        "editorGutter.background",
+        "editorBracketMatch.background",
+        "editorBracketMatch.border",
+        "editorWidget.background",
+        "editorWidget.foreground",
+        "editorWidget.border",
+        "editorHoverWidget.background",
+        "editorHoverWidget.foreground",
+        "editorHoverWidget.border",
+        "editorSuggestWidget.background",
+        "editorSuggestWidget.foreground",
+        "editorSuggestWidget.border",
+        "editorSuggestWidget.selectedBackground",
+        "editorError.foreground",
+        "editorWarning.foreground",
+        "editorLink.activeForeground",
+        "scrollbarSlider.background",
+        "scrollbarSlider.hoverBackground",
+        "scrollbarSlider.activeBackground",
+        "menu.background",
+        "menu.foreground",
+        "menu.selectionBackground",
+        "menu.selectionForeground",
+        "menu.separatorBackground",
+        "focusBorder",
+        "contrastBorder",
+        "contrastActiveBorder",
+    ];
+    let currentThemeBase = getBodyThemeBase(); // Monaco base theme, until the extension sends one
+    let currentTokenRules = []; // Token colors of the VS Code theme, as Monaco theme rules
+    let semanticTokens; // { model, versionId, data } for the previewed document
+    const semanticTokensProviders = new Map(); // language id -> { legendKey, emitter, registration }
+    let nextLanguageRequestId = 0;
+    const pendingLanguageRequests = new Map(); // request id -> resolve, for hover and highlight providers
 
     if (typeof require === "function" && typeof require.config === "function") {
         const monacoAmdPath = window.MONACO_BASE_PATH.endsWith("/")
@@ -22,19 +155,19 @@
             monacoEditor = monaco.editor.create(monacoEditorContainer, {
                 value: "// Select a reference to see its context.",
                 language: "plaintext",
-                theme: "vs",
                 readOnly: true,
                 automaticLayout: true,
                 scrollBeyondLastLine: false,
-                minimap: { enabled: false },
-                wordWrap: "off",
-                lineNumbers: "on",
+                minimap: { enabled: panelSettings.preview.minimap },
+                wordWrap: panelSettings.preview.wordWrap,
+                lineNumbers: panelSettings.preview.lineNumbers,
                 glyphMargin: true,
                 folding: true,
                 renderLineHighlight: "none",
-                occurrencesHighlight: false,
+                occurrencesHighlight: true,
                 selectionHighlight: false,
                 matchBrackets: "near",
+                "semanticHighlighting.enabled": true,
                 fontFamily: "var(--vscode-editor-font-family)",
                 fontSize:
                     parseFloat(
@@ -101,6 +234,87 @@
                     }
                 },
             });
+            monacoEditor.addAction({
+                id: "vscode-ext-find-references",
+                label: "Find References in Panel View",
+                keybindings: [
+                    monaco.KeyMod.Shift | monaco.KeyMod.Alt | monaco.KeyCode.F12,
+                ],
+                contextMenuGroupId: "navigation",
+                contextMenuOrder: 1.7,
+                run: function (editor) {
+                    const position = editor.getPosition();
+                    if (position && currentMonacoFileUri) {
+                        vscode.postMessage({
+                            command: "monacoAction",
+                            payload: {
+                                actionType: "findReferences",
+                                uri: currentMonacoFileUri,
+                                position: {
+                                    lineNumber: position.lineNumber,
+                                    column: position.column,
+                                },
+                            },
+                        });
+                    }
+                },
+            });
+            monacoEditor.addAction({
+                id: "vscode-ext-next-reference",
+                label: "Go to Next Reference",
+                keybindings: [monaco.KeyCode.F4],
+                contextMenuGroupId: "navigation",
+                contextMenuOrder: 1.8,
+                run: function () {
+                    goToAdjacentPreviewReference(1);
+                },
+            });
+            monacoEditor.addAction({
+                id: "vscode-ext-previous-reference",
+                label: "Go to Previous Reference",
+                keybindings: [monaco.KeyMod.Shift | monaco.KeyCode.F4],
+                contextMenuGroupId: "navigation",
+                contextMenuOrder: 1.9,
+                run: function () {
+                    goToAdjacentPreviewReference(-1);
+                },
+            });
+            monacoEditor.addAction({
+                id: "vscode-ext-save-document",
+                label: "Save Document",
+                keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS],
+                precondition: "!editorReadonly",
+                run: function () {
+                    if (currentMonacoFileUri) {
+                        vscode.postMessage({
+                            command: "savePreviewDocument",
+                            payload: { uri: currentMonacoFileUri },
+                        });
+                    }
+                },
+            });
+            monacoEditor.onDidChangeModelContent((event) => {
+                if (applyingRemoteContent || !previewEditable) return;
+                pendingPreviewEdits.push(
+                    event.changes.map((change) => ({
+                        range: change.range,
+                        text: change.text,
+                    }))
+                );
+                flushPreviewEdits();
+            });
+            registerLanguageFeatureProviders();
+            applyPreviewTheme();
+            // VS Code swaps the CSS variables and body classes when the color theme changes
+            const themeObserver = new MutationObserver(applyPreviewTheme);
+            themeObserver.observe(document.documentElement, {
+                attributes: true,
+                attributeFilter: ["style"],
+            });
+            themeObserver.observe(document.body, {
+                attributes: true,
+                attributeFilter: ["class"],
+            });
             vscode.postMessage({ command: "webviewReady" });
         });
     } else {
@@ -109,171 +323,1597 @@
         console.error("Monaco loader (require or require.config) not found.");
     }
 
+    function getBodyThemeBase() {
+        const classList = document.body.classList;
+        if (classList.contains("vscode-high-contrast-light")) return "hc-light";
+        if (classList.contains("vscode-high-contrast")) return "hc-black";
+        if (classList.contains("vscode-light")) return "vs";
+        return "vs-dark";
+    }
+
+    // Normalizes a CSS color to the #RRGGBB / #RRGGBBAA form Monaco themes accept
+    function cssColorToMonaco(value) {
+        value = (value || "").trim();
+        const hexMatch = value.match(/^#([0-9a-f]{3,8})$/i);
+        if (hexMatch) {
+            let hex = hexMatch[1];
+            if (hex.length === 3 || hex.length === 4) {
+                hex = hex.replace(/./g, (c) => c + c);
+            }
+            return hex.length === 6 || hex.length === 8 ? "#" + hex : undefined;
+        }
+        const rgbMatch = value.match(
+            /^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:[\s,/]+([\d.]+%?))?\s*\)$/i
+        );
+        if (!rgbMatch) return undefined;
+        const alpha = rgbMatch[4] === undefined
+            ? 1
+            : rgbMatch[4].endsWith("%")
+              ? parseFloat(rgbMatch[4]) / 100
+              : parseFloat(rgbMatch[4]);
+        const channels = [rgbMatch[1], rgbMatch[2], rgbMatch[3]].map(Number);
+        if (alpha < 1) channels.push(Math.round(alpha * 255));
+        return (
+            "#" +
+            channels
+                .map((channel) => Math.min(255, channel).toString(16).padStart(2, "0"))
+                .join("")
+        );
+    }
+
+    function getPreviewThemeColors() {
+        const style = getComputedStyle(document.documentElement);
+        const colors = {};
+        PREVIEW_THEME_COLORS.forEach((id) => {
+            const color = cssColorToMonaco(
+                style.getPropertyValue("--vscode-" + id.replace(/\./g, "-"))
+            );
+            if (color) colors[id] = color;
+        });
+        return colors;
+    }
+
+    // Monaco theme built from the active VS Code theme: editor colors from the webview's
+    // CSS variables, token colors from the rules the extension resolved from the theme
+    function applyPreviewTheme() {
+        if (!monacoEditor) return;
+        const colors = getPreviewThemeColors();
+        const rules = currentTokenRules.slice();
+        if (colors["editor.foreground"]) {
+            rules.unshift({
+                token: "",
+                foreground: colors["editor.foreground"].slice(0, 7),
+            });
+        }
+        monaco.editor.defineTheme(PREVIEW_THEME_NAME, {
+            base: currentThemeBase,
+            inherit: true,
+            rules: rules,
+            colors: colors,
+        });
+        monaco.editor.setTheme(PREVIEW_THEME_NAME);
+    }
+
+    // Monaco caches the legend per provider, so a language gets a new provider when its legend changes
+    function getSemanticTokensProvider(languageId, legend) {
+        const legendKey = JSON.stringify(legend);
+        let provider = semanticTokensProviders.get(languageId);
+        if (provider && provider.legendKey === legendKey) return provider;
+        if (provider) provider.registration.dispose();
+        const emitter = new monaco.Emitter();
+        provider = {
+            legendKey: legendKey,
+            emitter: emitter,
+            registration: monaco.languages.registerDocumentSemanticTokensProvider(
+                languageId,
+                {
+                    onDidChange: emitter.event,
+                    getLegend: () => legend,
+                    provideDocumentSemanticTokens: (model) => {
+                        // Tokens only fit the exact content they were computed for
+                        if (
+                            !semanticTokens ||
+                            semanticTokens.model !== model ||
+                            semanticTokens.versionId !== model.getVersionId()
+                        ) {
+                            return null;
+                        }
+                        return { data: semanticTokens.data };
+                    },
+                    releaseDocumentSemanticTokens: () => {},
+                }
+            ),
+        };
+        semanticTokensProviders.set(languageId, provider);
+        return provider;
+    }
+
+    function updateSemanticTokens(payload) {
+        const model = monacoEditor && monacoEditor.getModel();
+        if (
+            !model ||
+            payload.uri !== currentMonacoFileUri ||
+            payload.version !== currentMonacoVersion ||
+            previewEditInFlight ||
+            pendingPreviewEdits.length > 0
+        ) {
+            return; // Computed for content the preview no longer shows
+        }
+        semanticTokens = {
+            model: model,
+            versionId: model.getVersionId(),
+            data: new Uint32Array(payload.data),
+        };
+        getSemanticTokensProvider(model.getLanguageId(), payload.legend).emitter.fire();
+    }
+
+    // Hover and highlights come from VS Code's language servers, which know the whole workspace
+    function registerLanguageFeatureProviders() {
+        monaco.languages.registerHoverProvider("*", {
+            provideHover: (model, position) =>
+                requestLanguageFeature("hover", model, position),
+        });
+        monaco.languages.registerDocumentHighlightProvider("*", {
+            provideDocumentHighlights: (model, position) =>
+                requestLanguageFeature("documentHighlights", model, position),
+        });
+        // Monaco's bundled workers would answer the same requests from the single file
+        const builtinDefaults = [];
+        const ts = monaco.languages.typescript;
+        if (ts) builtinDefaults.push(ts.typescriptDefaults, ts.javascriptDefaults);
+        const css = monaco.languages.css;
+        if (css) builtinDefaults.push(css.cssDefaults, css.scssDefaults, css.lessDefaults);
+        const html = monaco.languages.html;
+        if (html) {
+            builtinDefaults.push(html.htmlDefaults, html.handlebarDefaults, html.razorDefaults);
+        }
+        const json = monaco.languages.json;
+        if (json) builtinDefaults.push(json.jsonDefaults);
+        builtinDefaults.forEach((defaults) => {
+            if (!defaults || !defaults.setModeConfiguration) return;
+            defaults.setModeConfiguration(
+                Object.assign({}, defaults.modeConfiguration, {
+                    hovers: false,
+                    documentHighlights: false,
+                })
+            );
+        });
+    }
+
+    function requestLanguageFeature(feature, model, position) {
+        if (!currentMonacoFileUri || model !== monacoEditor.getModel()) {
+            return Promise.resolve(null);
+        }
+        const requestId = ++nextLanguageRequestId;
+        return new Promise((resolve) => {
+            pendingLanguageRequests.set(requestId, resolve);
+            vscode.postMessage({
+                command: "provideLanguageFeature",
+                payload: {
+                    requestId: requestId,
+                    feature: feature,
+                    uri: currentMonacoFileUri,
+                    position: {
+                        lineNumber: position.lineNumber,
+                        column: position.column,
+                    },
+                },
+            });
+        });
+    }
+
     function escapeHtml(unsafe) {
         if (typeof unsafe !== "string") return "";
         return unsafe
-            .replace(/&/g, "&")
-            .replace(/</g, "<")
-            .replace(/>/g, ">")
-            .replace(/"/g, '"')
-            .replace(/'/g, "'");
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            .replace(/'/g, "&#39;");
     }
 
-    function renderReferenceLeafHTML(ref) {
-        const escapedUri = escapeHtml(ref.uri);
-        const escapedFullPath = escapeHtml(ref.fullPath);
-        let escapedPreviewText = escapeHtml(ref.previewText);
+    function getLeafLanguage(ref) {
         // Language for this specific leaf, if available from originalLocation
-        let fileExtension = "plaintext";
         if (
             ref.originalLocation &&
             ref.originalLocation.uri &&
             ref.originalLocation.uri.fsPath
         ) {
-            fileExtension =
-                ref.originalLocation.uri.fsPath.split(".").pop() || "plaintext";
-        } else if (ref.uri) {
-            // Fallback to uri if originalLocation is missing parts
-            fileExtension = ref.uri.split(".").pop() || "plaintext";
+            return ref.originalLocation.uri.fsPath.split(".").pop() || "plaintext";
+        }
+        // Fallback to uri if originalLocation is missing parts
+        return ref.uri ? ref.uri.split(".").pop() || "plaintext" : "plaintext";
+    }
+
+    function renderReferenceLeafContent(ref, showFileName) {
+        let accessBadge = "";
+        if (ref.accessKind === "write") {
+            accessBadge = `<span class="access-badge access-write" title="Write access">W</span>`;
+        } else if (ref.accessKind === "read") {
+            accessBadge = `<span class="access-badge access-read" title="Read access">R</span>`;
+        } else if (ref.textual) {
+            accessBadge = `<span class="access-badge access-text" title="Textual match, not found by a language server">T</span>`;
+        }
+        const changedBadge = ref.changed
+            ? `<span class="changed-badge codicon codicon-diff-modified" title="On a changed line"></span>`
+            : "";
+        let diffBadge = "";
+        if (ref.diffStatus === "added") {
+            diffBadge = `<span class="diff-badge diff-added codicon codicon-diff-added" title="Added since the snapshot"></span>`;
+        } else if (ref.diffStatus === "removed") {
+            diffBadge = `<span class="diff-badge diff-removed codicon codicon-diff-removed" title="Removed since the snapshot"></span>`;
         }
 
         // No enclosing symbol prefix here, as it's handled by the function group or directly
-        return `<li class="reference-leaf" data-uri="${escapedUri}" data-line="${
-            ref.line
-        }" data-character="${
-            ref.character
-        }" data-language="${fileExtension}" title="${escapedFullPath} (Line ${
-            ref.line + 1
-        })">
-                    <span class="line-number">L${ref.line + 1}</span>
-                    <span class="preview-text-content">${escapedPreviewText}</span>
-                </li>`;
-    }
-
-    function renderFileChildNodesHTML(childNodes) {
-        let html = "";
-        childNodes.forEach((childNode) => {
-            if (childNode.type === "function") {
-                const escapedFunctionName = escapeHtml(childNode.functionName);
-                html += `<li class="tree-node function-group-node collapsible">
-                            <span class="node-label">
-                                <span class="icon codicon codicon-chevron-right"></span>
-                                <span class="fx-icon codicon codicon-symbol-method"></span> <!-- 'fx' or method icon -->
-                                ${escapedFunctionName}
-                            </span>
-                            <ul class="nested-list function-references">
-                                ${childNode.references
-                                    .map((ref) => renderReferenceLeafHTML(ref))
-                                    .join("")}
-                            </ul>
-                         </li>`;
-            } else if (childNode.type === "leaf") {
-                // Loose reference directly under file
-                html += renderReferenceLeafHTML(childNode);
+        return {
+            className: `reference-leaf${ref.stale ? " stale" : ""}${ref.reviewed ? " reviewed" : ""}${
+                ref.diffStatus === "removed" ? " removed" : ""
+            }`,
+            title: `${ref.fullPath} (Line ${ref.line + 1})${
+                ref.textual ? " — textual match" : ""
+            }${
+                ref.stale ? " — edited since the search ran" : ""
+            }`,
+            html: `${
+                showFileName
+                    ? `<span class="leaf-file-name">${escapeHtml(ref.fileName)}</span>`
+                    : ""
+            }<span class="line-number">L${ref.line + 1}</span>
+                    ${diffBadge}
+                    ${changedBadge}
+                    ${accessBadge}
+                    <span class="preview-text-content">${escapeHtml(
+                        ref.previewText
+                    )}</span>`,
+        };
+    }
+
+    // Stable keys so expansion and selection survive re-rendering (e.g. switching tabs)
+    function getLeafKey(ref) {
+        // Reference leaves carry an id that survives line shifts; call sites don't
+        return ref.id !== undefined
+            ? `leaf:${ref.id}`
+            : `${ref.uri}:${ref.line}:${ref.character}`;
+    }
+
+    function countLeaves(node) {
+        if (node.type === "leaf") return 1;
+        return node.children.reduce((sum, child) => sum + countLeaves(child), 0);
+    }
+
+    function countDiffStatus(node, status) {
+        if (node.type === "leaf") return node.diffStatus === status ? 1 : 0;
+        return node.children.reduce((sum, child) => sum + countDiffStatus(child, status), 0);
+    }
+
+    function countReviewedLeaves(node) {
+        if (node.type === "leaf") return node.reviewed ? 1 : 0;
+        return node.children.reduce((sum, child) => sum + countReviewedLeaves(child), 0);
+    }
+
+    function renderNodeDescriptionHTML(node) {
+        return node.description
+            ? `<span class="node-description">${escapeHtml(node.description)}</span>`
+            : "";
+    }
+
+    function renderNodeCountHTML(node) {
+        const count = countLeaves(node);
+        // totalReferences is only set by the extension when a filter removed something
+        const text =
+            node.totalReferences !== undefined && node.totalReferences !== count
+                ? `${count} of ${node.totalReferences}`
+                : `${count}`;
+        // Progress covers the references hidden by filters too
+        const total = node.totalReferences !== undefined ? node.totalReferences : count;
+        const reviewed =
+            node.reviewedReferences !== undefined
+                ? node.reviewedReferences
+                : countReviewedLeaves(node);
+        const progress =
+            reviewed > 0
+                ? `<span class="review-progress${
+                      reviewed === total ? " complete" : ""
+                  }">${reviewed}/${total} reviewed</span>`
+                : "";
+        // Snapshot comparisons: what changed below this group
+        const added = countDiffStatus(node, "added");
+        const removed = countDiffStatus(node, "removed");
+        const diffSummary =
+            added > 0 || removed > 0
+                ? `<span class="diff-summary">${
+                      added > 0 ? `<span class="diff-added">+${added}</span>` : ""
+                  }${removed > 0 ? `<span class="diff-removed">−${removed}</span>` : ""}</span>`
+                : "";
+        return `<span class="node-count">${text}</span>${diffSummary}${progress}`;
+    }
+
+    function renderReviewControlsHTML(ref) {
+        const toggle = `<span class="review-toggle codicon codicon-${
+            ref.reviewed ? "pass-filled" : "circle-large-outline"
+        }" title="${ref.reviewed ? "Mark as Not Reviewed" : "Mark as Reviewed"} (Ctrl+Enter)"></span>`;
+        const note = ref.reviewNote
+            ? `<span class="review-note" title="${escapeHtml(ref.reviewNote)}">${escapeHtml(
+                  ref.reviewNote
+              )}</span>`
+            : "";
+        const noteButton = `<span class="review-note-button codicon codicon-comment" title="${
+            ref.reviewNote ? "Edit Review Note..." : "Add Review Note..."
+        }"></span>`;
+        return { toggle, trailing: `${note}${noteButton}` };
+    }
+
+    function getCallNodeChildren(node) {
+        const children = node.callSites.slice();
+        if (node.loadState === "loading") {
+            children.push({ type: "status", text: "Loading…" });
+        } else if (node.loadState === "loaded") {
+            if (node.children.length === 0) {
+                children.push({
+                    type: "status",
+                    text: `No ${
+                        currentCallDirection === "incoming" ? "callers" : "callees"
+                    }`,
+                });
+            } else {
+                children.push(...node.children);
             }
-        });
-        return html;
+        }
+        return children;
+    }
+
+    function createTreeRow(node, depth, parentRow) {
+        // Leaves outside of a file row show their file name
+        const inFile =
+            !!parentRow && (parentRow.kind === "file" || parentRow.inFile);
+        const base = { node, depth, inFile, parentRow };
+        switch (node.type) {
+            case "directory":
+                return { ...base, kind: "directory", key: `d:${node.fullPath}`, children: node.children };
+            case "file":
+                return { ...base, kind: "file", key: `f:${node.fullPath}`, children: node.children };
+            case "function":
+                return {
+                    ...base,
+                    kind: "function",
+                    // Top-level groups (grouped by symbol) carry their file's uri; the position
+                    // tells apart symbols sharing a name
+                    key: `fn:${node.uri || parentRow.key}:${node.functionName}@${node.line}`,
+                    children: node.children,
+                };
+            case "call":
+                return { ...base, kind: "call", key: `call:${node.id}`, children: getCallNodeChildren(node) };
+            case "status":
+                return { ...base, kind: "status", key: `${parentRow.key}>status` };
+            default:
+                // The same call site can show up under several call nodes
+                return {
+                    ...base,
+                    kind: "leaf",
+                    key:
+                        parentRow && parentRow.kind === "call"
+                            ? `${parentRow.key}>${getLeafKey(node)}`
+                            : getLeafKey(node),
+                };
+        }
+    }
+
+    // Depth-first over the tree; a row's children are only visited when visit() returns true
+    function walkTree(visit) {
+        const walk = (nodes, depth, parentRow) => {
+            nodes.forEach((node, index) => {
+                const row = createTreeRow(node, depth, parentRow);
+                row.posInSet = index + 1;
+                row.setSize = nodes.length;
+                if (visit(row) && row.children) {
+                    walk(row.children, depth + 1, row);
+                }
+            });
+        };
+        walk(treeRoots, 0, undefined);
+    }
+
+    function getTreeRowContent(row) {
+        const node = row.node;
+        const expanded = expandedKeys.has(row.key);
+        const chevron = `<span class="icon codicon codicon-chevron-${
+            expanded ? "down" : "right"
+        }"></span>`;
+        const collapsibleClass = `tree-node collapsible${expanded ? " expanded" : ""}`;
+        switch (row.kind) {
+            case "directory":
+                return {
+                    className: `${collapsibleClass} directory-node`,
+                    html: `<span class="node-label">${chevron} ${escapeHtml(
+                        node.dirName
+                    )}${renderNodeCountHTML(node)}</span>`,
+                };
+            case "file":
+                return {
+                    className: `${collapsibleClass} file-node`,
+                    html: `<span class="node-label">${chevron} ${escapeHtml(
+                        node.fileName
+                    )}${renderNodeDescriptionHTML(node)}${renderNodeCountHTML(node)}</span>`,
+                };
+            case "function":
+                return {
+                    className: `${collapsibleClass} function-group-node`,
+                    html: `<span class="node-label">
+                                ${chevron}
+                                <span class="fx-icon codicon codicon-${escapeHtml(
+                                    node.kindIcon
+                                )}"></span>
+                                ${escapeHtml(node.functionName)}
+                                ${renderNodeDescriptionHTML(node)}
+                                ${renderNodeCountHTML(node)}
+                            </span>`,
+                };
+            case "call":
+                return {
+                    className: `${collapsibleClass} call-node`,
+                    title: `${node.fullPath} (Line ${node.line + 1})`,
+                    html: `<span class="node-label">
+                                ${chevron}
+                                <span class="fx-icon codicon codicon-${escapeHtml(
+                                    node.kindIcon
+                                )}"></span>
+                                <span class="call-name">${escapeHtml(node.name)}</span>
+                                <span class="call-detail">${escapeHtml(node.detail)}</span>
+                            </span>`,
+                };
+            case "status":
+                return { className: "call-status", html: escapeHtml(node.text) };
+            default: {
+                const content = renderReferenceLeafContent(
+                    node,
+                    !row.inFile && node.type === "leaf"
+                );
+                if (row.key === selectedKey) {
+                    content.className += " selected";
+                }
+                if (node.type === "leaf") {
+                    // Call sites can't be replaced or reviewed, so only reference leaves get these
+                    const checked = checkedLeafIds.has(node.id);
+                    const review = renderReviewControlsHTML(node);
+                    content.html = `<input type="checkbox" class="leaf-checkbox" tabindex="-1" aria-hidden="true"${
+                        checked ? " checked" : ""
+                    }>${review.toggle}${content.html}${review.trailing}`;
+                    if (checked) content.className += " checked";
+                }
+                return content;
+            }
+        }
+    }
+
+    function setTreeData(roots) {
+        treeRoots = roots;
+        callNodesById.clear();
+        registerCallNodes(roots);
     }
 
-    function renderTreeNodesHTML(nodes) {
-        let html = "";
+    function registerCallNodes(nodes) {
         nodes.forEach((node) => {
-            if (node.type === "directory") {
-                const escapedDirName = escapeHtml(node.dirName);
-                html += `<li class="tree-node directory-node collapsible">
-                            <span class="node-label"><span class="icon codicon codicon-chevron-right"></span> ${escapedDirName}</span>
-                            <ul class="nested-list">${renderTreeNodesHTML(
-                                node.children
-                            )}</ul>
-                         </li>`;
-            } else if (node.type === "file") {
-                const escapedFileName = escapeHtml(node.fileName);
-                html += `<li class="tree-node file-node collapsible">
-                            <span class="node-label"><span class="icon codicon codicon-chevron-right"></span> ${escapedFileName}</span>
-                            <ul class="nested-list file-children">
-                                ${renderFileChildNodesHTML(node.children)}
-                            </ul>
-                         </li>`;
+            if (node.type === "call") callNodesById.set(node.id, node);
+        });
+    }
+
+    // Recomputes the flattened rows after the data or expansion changed
+    function refreshTree() {
+        visibleRows = [];
+        visibleRowsByKey.clear();
+        walkTree((row) => {
+            visibleRows.push(row);
+            visibleRowsByKey.set(row.key, row);
+            return expandedKeys.has(row.key);
+        });
+        renderVisibleTreeRows();
+    }
+
+    function scheduleTreeRender() {
+        if (treeRenderScheduled) return;
+        treeRenderScheduled = true;
+        requestAnimationFrame(renderVisibleTreeRows);
+    }
+
+    // Only rows in (or near) the viewport exist in the DOM; rows that didn't change are reused
+    function renderVisibleTreeRows() {
+        treeRenderScheduled = false;
+        if (!referenceTreeList || !referenceTreeContainer) return;
+        referenceTreeList.style.height = `${visibleRows.length * TREE_ROW_HEIGHT}px`;
+        const scrollOffset =
+            referenceTreeContainer.scrollTop - referenceTreeList.offsetTop;
+        const firstIndex = Math.max(
+            0,
+            Math.floor(scrollOffset / TREE_ROW_HEIGHT) - TREE_OVERSCAN_ROWS
+        );
+        const lastIndex = Math.min(
+            visibleRows.length,
+            Math.ceil(
+                (scrollOffset + referenceTreeContainer.clientHeight) /
+                    TREE_ROW_HEIGHT
+            ) + TREE_OVERSCAN_ROWS
+        );
+
+        const keysInView = new Set();
+        for (let index = firstIndex; index < lastIndex; index++) {
+            const row = visibleRows[index];
+            const content = getTreeRowContent(row);
+            let rendered = renderedRows.get(row.key);
+            if (!rendered) {
+                rendered = { element: document.createElement("li") };
+                rendered.element.dataset.nodeKey = row.key;
+                rendered.element.id = `tree-row-${nextTreeRowId++}`;
+                rendered.element.setAttribute(
+                    "role",
+                    row.kind === "status" ? "none" : "treeitem"
+                );
+                referenceTreeList.appendChild(rendered.element);
+                renderedRows.set(row.key, rendered);
+            }
+            if (rendered.className !== content.className) {
+                rendered.element.className = `tree-row ${content.className}`;
+                rendered.className = content.className;
+            }
+            if (rendered.html !== content.html) {
+                rendered.element.innerHTML = content.html;
+                rendered.html = content.html;
+            }
+            rendered.element.title = content.title || "";
+            rendered.element.classList.toggle("focused", row.key === focusedKey);
+            setTreeRowAriaAttributes(rendered.element, row);
+            rendered.element.style.top = `${index * TREE_ROW_HEIGHT}px`;
+            rendered.element.style.paddingLeft = `${
+                row.depth * TREE_INDENT +
+                (row.kind === "leaf" || row.kind === "status" ? 4 : 0)
+            }px`;
+            keysInView.add(row.key);
+        }
+        renderedRows.forEach((rendered, key) => {
+            if (!keysInView.has(key)) {
+                rendered.element.remove();
+                renderedRows.delete(key);
             }
         });
-        return html;
+        // Only a row in the DOM can be the active descendant
+        const focusedRow = focusedKey !== undefined && renderedRows.get(focusedKey);
+        if (focusedRow) {
+            referenceTreeList.setAttribute("aria-activedescendant", focusedRow.element.id);
+        } else {
+            referenceTreeList.removeAttribute("aria-activedescendant");
+        }
+    }
+
+    function setTreeRowAriaAttributes(element, row) {
+        // Only rows in the DOM are known to assistive technology, so position and level are explicit
+        element.setAttribute("aria-level", String(row.depth + 1));
+        element.setAttribute("aria-posinset", String(row.posInSet));
+        element.setAttribute("aria-setsize", String(row.setSize));
+        if (row.children) {
+            element.setAttribute(
+                "aria-expanded",
+                String(expandedKeys.has(row.key))
+            );
+        } else {
+            element.removeAttribute("aria-expanded");
+        }
+        if (row.kind === "leaf") {
+            element.setAttribute("aria-selected", String(row.key === selectedKey));
+        }
+        if (row.node.type === "leaf") {
+            element.setAttribute("aria-checked", String(checkedLeafIds.has(row.node.id)));
+        }
+    }
+
+    function isCheckableRow(row) {
+        return row.kind === "leaf" && row.node.type === "leaf";
+    }
+
+    function setCheckedLeafIds(ids) {
+        checkedLeafIds = ids;
+        if (referenceTreeList) {
+            referenceTreeList.classList.toggle(
+                "has-checked-leaves",
+                checkedLeafIds.size > 0
+            );
+        }
+        if (selectionBar) {
+            selectionBar.hidden = checkedLeafIds.size === 0;
+        }
+        if (selectionCountElement) {
+            selectionCountElement.textContent = `${checkedLeafIds.size} selected`;
+        }
+        renderVisibleTreeRows();
+    }
+
+    function toggleLeafChecked(row) {
+        const ids = new Set(checkedLeafIds);
+        if (ids.has(row.node.id)) {
+            ids.delete(row.node.id);
+        } else {
+            ids.add(row.node.id);
+        }
+        checkAnchorKey = row.key;
+        setCheckedLeafIds(ids);
+    }
+
+    // Ticked references are all marked along with the row, like a multi-selection
+    function toggleLeafReviewed(row) {
+        const leafIds = checkedLeafIds.has(row.node.id)
+            ? Array.from(checkedLeafIds)
+            : [row.node.id];
+        vscode.postMessage({
+            command: "setReviewed",
+            payload: { leafIds, reviewed: !row.node.reviewed },
+        });
+    }
+
+    // Shift-click: ticks every visible reference between the anchor and the clicked row
+    function checkLeafRange(row) {
+        const anchorIndex = visibleRows.findIndex((r) => r.key === checkAnchorKey);
+        const rowIndex = visibleRows.indexOf(row);
+        if (anchorIndex < 0) {
+            toggleLeafChecked(row);
+            return;
+        }
+        const ids = new Set(checkedLeafIds);
+        visibleRows
+            .slice(Math.min(anchorIndex, rowIndex), Math.max(anchorIndex, rowIndex) + 1)
+            .forEach((r) => {
+                if (isCheckableRow(r)) ids.add(r.node.id);
+            });
+        setCheckedLeafIds(ids);
     }
 
-    function clearAllSelections() {
-        const selected = referenceTreeList.querySelector(
-            ".reference-leaf.selected"
+    function getTreeRowLabel(row) {
+        switch (row.kind) {
+            case "directory":
+                return row.node.dirName;
+            case "file":
+                return row.node.fileName;
+            case "function":
+                return row.node.functionName;
+            case "call":
+                return row.node.name;
+            case "leaf":
+                return row.node.previewText;
+            default:
+                return "";
+        }
+    }
+
+    function setFocusedRow(key) {
+        focusedKey = key;
+        scrollTreeRowIntoView(key); // Renders the row, which makes it the active descendant
+    }
+
+    function moveTreeFocus(index) {
+        if (visibleRows.length === 0) return;
+        const clampedIndex = Math.max(0, Math.min(visibleRows.length - 1, index));
+        setFocusedRow(visibleRows[clampedIndex].key);
+    }
+
+    function setTreeRowExpanded(row, expanded) {
+        if (row.kind === "call") {
+            setCallNodeExpanded(row.node, expanded);
+        } else {
+            setNodeExpanded(row.key, expanded);
+        }
+    }
+
+    // Expands the row's ancestors, then focuses it and, for references, previews it
+    function revealTreeRow(key) {
+        let target;
+        walkTree((row) => {
+            if (row.key === key) target = row;
+            return !target;
+        });
+        if (!target) return;
+        for (let ancestor = target.parentRow; ancestor; ancestor = ancestor.parentRow) {
+            expandedKeys.add(ancestor.key);
+        }
+        refreshTree();
+        const row = visibleRowsByKey.get(key);
+        if (row.kind === "leaf") {
+            selectLeafRow(row);
+        }
+        setFocusedRow(key);
+    }
+
+    function openTreeRow(row) {
+        vscode.postMessage({
+            command: "explicitNavigateTo",
+            payload: {
+                uri: row.node.uri,
+                line: row.node.line,
+                character: row.node.character,
+            },
+        });
+    }
+
+    // Jumps to the next row whose label starts with the typed text
+    function typeAhead(character) {
+        clearTimeout(typeAheadTimer);
+        typeAheadTimer = setTimeout(() => (typeAheadText = ""), 700);
+        typeAheadText += character.toLowerCase();
+        const focusedIndex = visibleRows.findIndex((row) => row.key === focusedKey);
+        // A repeated first letter moves on to the next match
+        const startOffset = typeAheadText.length === 1 ? 1 : 0;
+        for (let offset = 0; offset < visibleRows.length; offset++) {
+            const row =
+                visibleRows[
+                    (focusedIndex + startOffset + offset + visibleRows.length) %
+                        visibleRows.length
+                ];
+            if (getTreeRowLabel(row).trim().toLowerCase().startsWith(typeAheadText)) {
+                setFocusedRow(row.key);
+                return;
+            }
+        }
+    }
+
+    function handleTreeKeydown(event) {
+        if (visibleRows.length === 0) return;
+        const focusedIndex = visibleRows.findIndex((row) => row.key === focusedKey);
+        const row = visibleRows[focusedIndex];
+        switch (event.key) {
+            case "ArrowDown":
+                moveTreeFocus(focusedIndex + 1);
+                break;
+            case "ArrowUp":
+                moveTreeFocus(focusedIndex < 0 ? 0 : focusedIndex - 1);
+                break;
+            case "Home":
+                moveTreeFocus(0);
+                break;
+            case "End":
+                moveTreeFocus(visibleRows.length - 1);
+                break;
+            case "ArrowRight":
+                if (!row || !row.children) break;
+                if (!expandedKeys.has(row.key)) {
+                    setTreeRowExpanded(row, true);
+                } else {
+                    const nextRow = visibleRows[focusedIndex + 1];
+                    if (nextRow && nextRow.parentRow && nextRow.parentRow.key === row.key) {
+                        setFocusedRow(nextRow.key);
+                    }
+                }
+                break;
+            case "ArrowLeft":
+                if (!row) break;
+                if (row.children && expandedKeys.has(row.key)) {
+                    setTreeRowExpanded(row, false);
+                } else if (row.parentRow) {
+                    setFocusedRow(row.parentRow.key);
+                }
+                break;
+            case "Enter":
+                // Opens references and call hierarchy items in the editor, toggles groups;
+                // Ctrl+Enter marks a reference as reviewed
+                if (!row || row.kind === "status") break;
+                if ((event.ctrlKey || event.metaKey) && isCheckableRow(row)) {
+                    toggleLeafReviewed(row);
+                } else if (row.kind === "leaf" || row.kind === "call") {
+                    openTreeRow(row);
+                } else {
+                    setTreeRowExpanded(row, !expandedKeys.has(row.key));
+                }
+                break;
+            case " ":
+                // Previews without leaving the panel; Shift+Space ticks the reference
+                if (!row || row.kind === "status") break;
+                if (event.shiftKey && isCheckableRow(row)) {
+                    toggleLeafChecked(row);
+                } else if (row.kind === "leaf") {
+                    selectLeafRow(row);
+                } else if (row.kind === "call") {
+                    vscode.postMessage({
+                        command: "getContextMonaco",
+                        payload: { uri: row.node.uri, line: row.node.line },
+                    });
+                } else {
+                    setTreeRowExpanded(row, !expandedKeys.has(row.key));
+                }
+                break;
+            default:
+                if (
+                    event.key.length === 1 &&
+                    !event.ctrlKey &&
+                    !event.metaKey &&
+                    !event.altKey
+                ) {
+                    typeAhead(event.key);
+                    break;
+                }
+                return; // Leave other shortcuts alone
+        }
+        event.preventDefault();
+    }
+
+    function scrollTreeRowIntoView(key) {
+        const index = visibleRows.findIndex((row) => row.key === key);
+        if (index < 0 || !referenceTreeContainer) return;
+        const rowTop = referenceTreeList.offsetTop + index * TREE_ROW_HEIGHT;
+        if (rowTop < referenceTreeContainer.scrollTop) {
+            referenceTreeContainer.scrollTop = rowTop;
+        } else if (
+            rowTop + TREE_ROW_HEIGHT >
+            referenceTreeContainer.scrollTop + referenceTreeContainer.clientHeight
+        ) {
+            referenceTreeContainer.scrollTop =
+                rowTop + TREE_ROW_HEIGHT - referenceTreeContainer.clientHeight;
+        }
+        renderVisibleTreeRows();
+    }
+
+    function setCallNodeExpanded(node, expanded) {
+        setNodeExpanded(`call:${node.id}`, expanded);
+        // Children are fetched from the extension the first time a node is opened
+        if (expanded && !node.loadState) {
+            node.loadState = "loading";
+            refreshTree();
+            vscode.postMessage({
+                command: "resolveCallHierarchyChildren",
+                payload: { id: node.id },
+            });
+        }
+    }
+
+    function setListMode(searchMode) {
+        const isCallHierarchy =
+            searchMode === "incomingCalls" || searchMode === "outgoingCalls";
+        isCallHierarchyList = isCallHierarchy;
+        if (isCallHierarchy) {
+            currentCallDirection =
+                searchMode === "incomingCalls" ? "incoming" : "outgoing";
+        }
+        if (searchModeSelect && searchMode) {
+            searchModeSelect.value = searchMode;
+        }
+        [filterWritesToggle, filterReadsToggle].forEach((button) => {
+            if (button) {
+                button.hidden = searchMode !== "references";
+            }
+        });
+        if (filterBar) {
+            filterBar.hidden = isCallHierarchy;
+        }
+        if (snapshotsMenuButton) {
+            snapshotsMenuButton.hidden = isCallHierarchy;
+        }
+        if (exportResultsButton) {
+            exportResultsButton.hidden = isCallHierarchy;
+        }
+        if (diffScopeToggle) {
+            diffScopeToggle.hidden = isCallHierarchy;
+        }
+        if (callDirectionToggle) {
+            callDirectionToggle.hidden = !isCallHierarchy;
+            callDirectionToggle.title =
+                currentCallDirection === "incoming"
+                    ? "Show Outgoing Calls"
+                    : "Show Incoming Calls";
+        }
+    }
+
+    function setAccessFilter(filter) {
+        currentAccessFilter = filter;
+        if (filterWritesToggle) {
+            filterWritesToggle.classList.toggle("toggled", filter === "write");
+            filterWritesToggle.setAttribute(
+                "aria-pressed",
+                String(filter === "write")
+            );
+        }
+        if (filterReadsToggle) {
+            filterReadsToggle.classList.toggle("toggled", filter === "read");
+            filterReadsToggle.setAttribute(
+                "aria-pressed",
+                String(filter === "read")
+            );
+        }
+    }
+
+    function syncReferenceFilter(filter, visibleCount, totalCount) {
+        if (filter) {
+            // Don't fight the user while they are typing
+            if (filterTextInput && document.activeElement !== filterTextInput) {
+                filterTextInput.value = filter.text;
+            }
+            if (filterGlobInput && document.activeElement !== filterGlobInput) {
+                filterGlobInput.value = filter.globs;
+            }
+            if (hideTestsToggle) {
+                hideTestsToggle.classList.toggle("toggled", filter.hideTestFiles);
+                hideTestsToggle.setAttribute(
+                    "aria-pressed",
+                    String(filter.hideTestFiles)
+                );
+            }
+            if (changedOnlyToggle) {
+                changedOnlyToggle.classList.toggle("toggled", filter.changedOnly);
+                changedOnlyToggle.setAttribute(
+                    "aria-pressed",
+                    String(filter.changedOnly)
+                );
+            }
+            if (hideReviewedToggle) {
+                hideReviewedToggle.classList.toggle("toggled", filter.hideReviewed);
+                hideReviewedToggle.setAttribute(
+                    "aria-pressed",
+                    String(filter.hideReviewed)
+                );
+            }
+        }
+        if (referenceCountElement) {
+            referenceCountElement.textContent =
+                totalCount === undefined
+                    ? ""
+                    : visibleCount === totalCount
+                    ? `${totalCount}`
+                    : `${visibleCount} of ${totalCount}`;
+        }
+        if (initialMessageElement) {
+            initialMessageElement.textContent =
+                totalCount > 0 && visibleCount === 0
+                    ? "No references match the current filter."
+                    : initialMessageText;
+        }
+    }
+
+    // The "changed only" filter only makes sense while results are compared with a git ref
+    function syncDiffScope(diffScope) {
+        if (diffScopeToggle) {
+            diffScopeToggle.classList.toggle("toggled", Boolean(diffScope));
+            diffScopeToggle.title = diffScope
+                ? `Marking Changed Lines: ${diffScope}`
+                : "Mark References on Changed Lines...";
+        }
+        if (changedOnlyToggle) {
+            changedOnlyToggle.hidden = !diffScope;
+        }
+    }
+
+    function syncReferenceGrouping(grouping) {
+        if (groupingSelect && grouping) {
+            groupingSelect.value = grouping;
+        }
+    }
+
+    function postReferenceFilter() {
+        vscode.postMessage({
+            command: "setReferenceFilter",
+            payload: {
+                filter: {
+                    text: filterTextInput ? filterTextInput.value : "",
+                    globs: filterGlobInput ? filterGlobInput.value : "",
+                    hideTestFiles: hideTestsToggle
+                        ? hideTestsToggle.classList.contains("toggled")
+                        : false,
+                    changedOnly: changedOnlyToggle
+                        ? changedOnlyToggle.classList.contains("toggled")
+                        : false,
+                    hideReviewed: hideReviewedToggle
+                        ? hideReviewedToggle.classList.contains("toggled")
+                        : false,
+                },
+            },
+        });
+    }
+
+    function renderHistory(entries, currentIndex) {
+        if (historyBackButton) {
+            historyBackButton.disabled = currentIndex <= 0;
+        }
+        if (historyForwardButton) {
+            historyForwardButton.disabled = currentIndex >= entries.length - 1;
+        }
+        if (!historyList) return;
+        if (entries.length === 0) {
+            historyList.innerHTML = `<li class="history-empty">No previous searches.</li>`;
+            return;
+        }
+        // Most recent first
+        historyList.innerHTML = entries
+            .map((entry, index) => ({ entry, index }))
+            .reverse()
+            .map(
+                ({ entry, index }) => `<li class="history-entry${
+                    index === currentIndex ? " current" : ""
+                }" data-index="${index}" title="${escapeHtml(entry.location)}">
+                        <span class="history-symbol">${escapeHtml(
+                            entry.symbolName
+                        )}</span>
+                        <span class="history-detail">${escapeHtml(
+                            entry.modeTitle
+                        )} · ${escapeHtml(entry.location)} · ${escapeHtml(
+                    new Date(entry.timestamp).toLocaleString()
+                )}</span>
+                    </li>`
+            )
+            .join("");
+    }
+
+    function setNodeExpanded(key, expanded) {
+        if (expanded) {
+            expandedKeys.add(key);
+        } else {
+            expandedKeys.delete(key);
+        }
+        refreshTree();
+    }
+
+    // Reference results start fully expanded; call hierarchy nodes load their children lazily
+    function shouldAutoExpand(row) {
+        switch (panelSettings.autoExpand) {
+            case "none":
+                return false;
+            case "folders":
+                return row.kind === "directory";
+            default:
+                return row.kind !== "call";
+        }
+    }
+
+    function applySettings(settings) {
+        const autoExpandChanged = settings.autoExpand !== panelSettings.autoExpand;
+        panelSettings = settings;
+        if (monacoEditor) {
+            monacoEditor.updateOptions({
+                minimap: { enabled: settings.preview.minimap },
+                wordWrap: settings.preview.wordWrap,
+                lineNumbers: settings.preview.lineNumbers,
+            });
+        }
+        // Call hierarchy nodes load lazily and aren't auto-expanded, so only references change
+        if (autoExpandChanged && !isCallHierarchyList) {
+            expandedKeys = new Set();
+            applyDefaultExpansion();
+            refreshTree();
+        }
+    }
+
+    // Expands every node not in knownKeys (all nodes if omitted) that is expanded by default
+    function applyDefaultExpansion(knownKeys) {
+        walkTree((row) => {
+            if (
+                row.children &&
+                !(knownKeys && knownKeys.has(row.key)) &&
+                shouldAutoExpand(row)
+            ) {
+                expandedKeys.add(row.key);
+            }
+            return true;
+        });
+    }
+
+    function saveTabUiState(tabId) {
+        const knownKeys = new Set();
+        walkTree((row) => {
+            if (row.children) knownKeys.add(row.key);
+            return true;
+        });
+        tabUiStates.set(tabId, {
+            // Nodes not known yet (e.g. streamed in later) get the default expansion
+            knownKeys: knownKeys,
+            expandedKeys: new Set(expandedKeys),
+            selectedKey: selectedKey,
+            focusedKey: focusedKey,
+            scrollTop: referenceTreeContainer
+                ? referenceTreeContainer.scrollTop
+                : 0,
+            checkedLeafIds: new Set(checkedLeafIds),
+            monacoFileUri: currentMonacoFileUri,
+            monacoViewState: monacoEditor
+                ? monacoEditor.saveViewState()
+                : undefined,
+        });
+    }
+
+    function restoreTreeUiState(state) {
+        expandedKeys = new Set(state.expandedKeys);
+        applyDefaultExpansion(state.knownKeys);
+        selectedKey = state.selectedKey;
+        focusedKey = state.focusedKey;
+        setCheckedLeafIds(new Set(state.checkedLeafIds || []));
+        refreshTree();
+        // Call hierarchy children are loaded lazily again for nodes that were open
+        callNodesById.forEach((node) => {
+            if (expandedKeys.has(`call:${node.id}`)) {
+                setCallNodeExpanded(node, true);
+            }
+        });
+        if (referenceTreeContainer) {
+            referenceTreeContainer.scrollTop = state.scrollTop;
+            renderVisibleTreeRows();
+        }
+    }
+
+    function renderTabs(tabs, activeTabId) {
+        if (activeTabId !== currentTabId) {
+            if (currentTabId !== undefined) {
+                saveTabUiState(currentTabId);
+            }
+            currentTabId = activeTabId;
+            pendingTreeRestore = tabUiStates.get(activeTabId);
+            pendingMonacoRestore = pendingTreeRestore;
+        }
+        // Forget UI state of closed tabs
+        const openTabIds = new Set(tabs.map((tab) => tab.id));
+        Array.from(tabUiStates.keys()).forEach((id) => {
+            if (!openTabIds.has(id)) tabUiStates.delete(id);
+        });
+
+        const activeTab = tabs.find((tab) => tab.id === activeTabId);
+        if (pinTabToggle) {
+            const pinned = !!(activeTab && activeTab.pinned);
+            pinTabToggle.classList.toggle("toggled", pinned);
+            pinTabToggle.setAttribute("aria-pressed", String(pinned));
+            pinTabToggle.title = pinned
+                ? "Unpin Results"
+                : "Pin Results (next search opens a new tab)";
+        }
+        if (!resultTabsElement) return;
+        // A single unpinned tab behaves like the classic single result view
+        resultTabsElement.hidden = tabs.length === 1 && !tabs[0].pinned;
+        resultTabsElement.innerHTML = tabs
+            .map(
+                (tab) => `<div class="result-tab${
+                    tab.id === activeTabId ? " active" : ""
+                }${tab.stale ? " stale" : ""}" data-tab-id="${tab.id}" title="${escapeHtml(tab.title)}">
+                        ${
+                            tab.pinned
+                                ? `<span class="codicon codicon-pinned"></span>`
+                                : ""
+                        }
+                        <span class="tab-title">${escapeHtml(tab.title)}</span>
+                        <button class="tab-close icon-button codicon codicon-close" title="Close"></button>
+                    </div>`
+            )
+            .join("");
+    }
+
+    function flushPreviewEdits() {
+        // One request at a time: each is checked against the version the previous one produced
+        if (previewEditInFlight || pendingPreviewEdits.length === 0) return;
+        previewEditInFlight = true;
+        vscode.postMessage({
+            command: "applyPreviewEdit",
+            payload: {
+                uri: currentMonacoFileUri,
+                baseVersion: currentMonacoVersion,
+                changeBatches: pendingPreviewEdits,
+            },
+        });
+        pendingPreviewEdits = [];
+    }
+
+    function setPreviewContent(model, content) {
+        applyingRemoteContent = true;
+        try {
+            model.setValue(content);
+        } finally {
+            applyingRemoteContent = false;
+        }
+    }
+
+    function updatePreviewReadOnly() {
+        // The placeholder and error messages have no document behind them
+        const canEdit = previewEditable && !!currentMonacoFileUri;
+        if (monacoEditor) {
+            monacoEditor.updateOptions({ readOnly: !canEdit });
+        }
+        if (previewEditToggle) {
+            previewEditToggle.classList.toggle("toggled", previewEditable);
+            previewEditToggle.setAttribute(
+                "aria-pressed",
+                String(previewEditable)
+            );
+            previewEditToggle.title = previewEditable
+                ? "Disable Editing in Preview"
+                : "Enable Editing in Preview";
+        }
+    }
+
+    // Result references in the previewed file, in source order
+    function getPreviewFileLeaves() {
+        const leaves = [];
+        const collect = (nodes) =>
+            nodes.forEach((node) => {
+                if (node.type === "leaf") {
+                    if (node.uri === currentMonacoFileUri) leaves.push(node);
+                } else if (node.children) {
+                    collect(node.children);
+                }
+            });
+        if (currentMonacoFileUri) collect(treeRoots);
+        return leaves.sort((a, b) => a.line - b.line || a.character - b.character);
+    }
+
+    // The leaf selected in the tree, or else the one on the line the preview was opened at
+    function getSelectedPreviewLeaf(leaves) {
+        return (
+            leaves.find((leaf) => getLeafKey(leaf) === selectedKey) ||
+            leaves.find((leaf) => leaf.line + 1 === currentMonacoRevealLine)
         );
-        if (selected) {
-            selected.classList.remove("selected");
+    }
+
+    function getLeafRange(model, leaf) {
+        const lineNumber = leaf.line + 1;
+        if (lineNumber > model.getLineCount()) return undefined;
+        const startColumn = Math.min(leaf.character + 1, model.getLineMaxColumn(lineNumber));
+        if (leaf.endLine !== undefined && leaf.endLine + 1 <= model.getLineCount()) {
+            const endColumn = Math.min(
+                leaf.endCharacter + 1,
+                model.getLineMaxColumn(leaf.endLine + 1)
+            );
+            if (leaf.endLine > leaf.line || endColumn > startColumn) {
+                return new monaco.Range(lineNumber, startColumn, leaf.endLine + 1, endColumn);
+            }
         }
+        // Empty or unknown range: fall back to the word at the reference
+        const word = model.getWordAtPosition({ lineNumber, column: startColumn });
+        return word
+            ? new monaco.Range(lineNumber, word.startColumn, lineNumber, word.endColumn)
+            : new monaco.Range(lineNumber, startColumn, lineNumber, startColumn);
+    }
+
+    // Marks every reference in the previewed file with its exact range, a gutter glyph and an
+    // overview ruler mark; the selected one also gets the whole-line highlight
+    function updateReferenceDecorations() {
+        const model = monacoEditor && monacoEditor.getModel();
+        if (!model) return;
+        const leaves = getPreviewFileLeaves();
+        const selectedLeaf = getSelectedPreviewLeaf(leaves);
+        const decorations = [];
+        leaves.forEach((leaf, index) => {
+            const range = getLeafRange(model, leaf);
+            if (!range) return;
+            const selected = leaf === selectedLeaf;
+            decorations.push({
+                range: range,
+                options: {
+                    className: selected
+                        ? "selected-reference-range-highlight"
+                        : "reference-range-highlight",
+                    glyphMarginClassName: selected
+                        ? "codicon codicon-arrow-small-right reference-glyph selected"
+                        : "codicon codicon-circle-small-filled reference-glyph",
+                    glyphMarginHoverMessage: {
+                        value: `Reference ${index + 1} of ${leaves.length}`,
+                    },
+                    overviewRuler: {
+                        color: { id: "editorOverviewRuler.findMatchForeground" },
+                        position: selected
+                            ? monaco.editor.OverviewRulerLane.Full
+                            : monaco.editor.OverviewRulerLane.Center,
+                    },
+                    stickiness:
+                        monaco.editor.TrackedRangeStickiness
+                            .NeverGrowsWhenTypingAtEdges,
+                },
+            });
+        });
+        const highlightLine = selectedLeaf
+            ? selectedLeaf.line + 1
+            : currentMonacoRevealLine;
+        if (highlightLine <= model.getLineCount()) {
+            decorations.push({
+                range: new monaco.Range(
+                    highlightLine,
+                    1,
+                    highlightLine,
+                    model.getLineMaxColumn(highlightLine)
+                ),
+                options: {
+                    isWholeLine: true,
+                    className: "current-reference-line-highlight",
+                },
+            });
+        }
+        referenceDecorationIds = monacoEditor.deltaDecorations(
+            referenceDecorationIds,
+            decorations
+        );
+    }
+
+    // Steps through the previewed file's references, wrapping around; selects the leaf in the
+    // tree too, which brings the preview along
+    function goToAdjacentPreviewReference(delta) {
+        const leaves = getPreviewFileLeaves();
+        if (leaves.length === 0) return;
+        const selectedLeaf = getSelectedPreviewLeaf(leaves);
+        const index = selectedLeaf
+            ? (leaves.indexOf(selectedLeaf) + delta + leaves.length) % leaves.length
+            : delta > 0
+              ? 0
+              : leaves.length - 1;
+        revealTreeRow(getLeafKey(leaves[index]));
+        updateReferenceDecorations();
+    }
+
+    function selectLeafRow(row) {
+        selectedKey = row.key;
+        focusedKey = row.key;
+        renderVisibleTreeRows();
+        vscode.postMessage({
+            command: "getContextMonaco",
+            payload: {
+                uri: row.node.uri,
+                line: row.node.line,
+                language: getLeafLanguage(row.node),
+                leafId: row.node.id, // Lets next/previous reference continue from here
+            },
+        });
     }
 
     if (referenceTreeList) {
         referenceTreeList.addEventListener("click", (event) => {
-            let target = event.target;
+            const rowElement = event.target.closest(".tree-row");
+            const row =
+                rowElement && visibleRowsByKey.get(rowElement.dataset.nodeKey);
+            if (!row || row.kind === "status") return;
+            setFocusedRow(row.key);
 
+            if (row.kind === "call") {
+                setCallNodeExpanded(row.node, !expandedKeys.has(row.key));
+                // Also show the called/calling symbol's declaration
+                vscode.postMessage({
+                    command: "getContextMonaco",
+                    payload: { uri: row.node.uri, line: row.node.line },
+                });
+                return;
+            }
             // Handle expand/collapse of tree nodes (directory, file, function group)
-            let labelElement = target.closest(".node-label");
-            if (labelElement) {
-                const parentLi = labelElement.closest(".collapsible");
-                if (parentLi) {
-                    parentLi.classList.toggle("expanded");
-                    const icon = labelElement.querySelector(
-                        ".icon.codicon-chevron-right, .icon.codicon-chevron-down"
-                    );
-                    if (icon) {
-                        icon.classList.toggle(
-                            "codicon-chevron-down",
-                            parentLi.classList.contains("expanded")
-                        );
-                        icon.classList.toggle(
-                            "codicon-chevron-right",
-                            !parentLi.classList.contains("expanded")
-                        );
-                    }
+            if (row.kind !== "leaf") {
+                setNodeExpanded(row.key, !expandedKeys.has(row.key));
+                return;
+            }
+            if (event.target.classList.contains("review-toggle")) {
+                toggleLeafReviewed(row);
+                return;
+            }
+            if (event.target.classList.contains("review-note-button")) {
+                vscode.postMessage({
+                    command: "editReviewNote",
+                    payload: { leafId: row.node.id },
+                });
+                return;
+            }
+            if (isCheckableRow(row)) {
+                if (event.shiftKey) {
+                    checkLeafRange(row);
+                    return;
                 }
-                // If the click was on a label, don't process as leaf click.
-                // Check if the click was specifically on a reference leaf if labelElement is also part of a leaf.
-                if (!target.closest(".reference-leaf")) {
+                if (
+                    event.ctrlKey ||
+                    event.metaKey ||
+                    event.target.classList.contains("leaf-checkbox")
+                ) {
+                    toggleLeafChecked(row);
                     return;
                 }
+                checkAnchorKey = row.key;
             }
-
             // Handle reference leaf click
-            let leafElement = target.closest(".reference-leaf");
-            if (leafElement) {
-                const currentTime = new Date().getTime();
-                clearAllSelections();
-                leafElement.classList.add("selected");
+            selectLeafRow(row);
+            if (panelSettings.openReferenceOn === "singleClick") {
+                openTreeRow(row);
+            }
+        });
 
-                const uri = leafElement.dataset.uri;
-                const line = parseInt(leafElement.dataset.line);
-                const lang = leafElement.dataset.language;
+        referenceTreeList.addEventListener("dblclick", (event) => {
+            const rowElement = event.target.closest(".tree-row");
+            const row =
+                rowElement && visibleRowsByKey.get(rowElement.dataset.nodeKey);
+            if (
+                row &&
+                row.kind === "leaf" &&
+                panelSettings.openReferenceOn === "doubleClick"
+            ) {
+                openTreeRow(row);
+            }
+        });
+
+        referenceTreeList.addEventListener("keydown", handleTreeKeydown);
+    }
+
+    if (referenceTreeContainer) {
+        referenceTreeContainer.addEventListener("scroll", scheduleTreeRender);
+        new ResizeObserver(scheduleTreeRender).observe(referenceTreeContainer);
+    }
+
+    if (searchModeSelect) {
+        searchModeSelect.addEventListener("change", () => {
+            vscode.postMessage({
+                command: "switchSearchMode",
+                payload: { mode: searchModeSelect.value },
+            });
+        });
+    }
 
+    [
+        [filterWritesToggle, "write"],
+        [filterReadsToggle, "read"],
+    ].forEach(([button, filter]) => {
+        if (button) {
+            button.addEventListener("click", () => {
+                // Clicking the active toggle again shows all references
+                setAccessFilter(currentAccessFilter === filter ? "all" : filter);
                 vscode.postMessage({
-                    command: "getContextMonaco",
-                    payload: { uri, line, language: lang },
+                    command: "setAccessFilter",
+                    payload: { filter: currentAccessFilter },
                 });
+            });
+        }
+    });
 
-                const isDoubleClick =
-                    currentTime - lastClickedLeafTime <
-                        DOUBLE_CLICK_THRESHOLD &&
-                    leafElement.dataset.lastClickTarget === "true";
-                if (isDoubleClick) {
-                    const character = parseInt(leafElement.dataset.character);
-                    vscode.postMessage({
-                        command: "explicitNavigateTo",
-                        payload: { uri, line, character },
-                    });
-                }
-                lastClickedLeafTime = currentTime;
-                const allLeaves =
-                    referenceTreeList.querySelectorAll(".reference-leaf");
-                allLeaves.forEach(
-                    (el) => (el.dataset.lastClickTarget = "false")
-                );
-                leafElement.dataset.lastClickTarget = "true";
-            }
+    [filterTextInput, filterGlobInput].forEach((input) => {
+        if (input) {
+            input.addEventListener("input", () => {
+                clearTimeout(filterDebounceTimer);
+                filterDebounceTimer = setTimeout(postReferenceFilter, 200);
+            });
+        }
+    });
+
+    if (groupingSelect) {
+        groupingSelect.addEventListener("change", () => {
+            vscode.postMessage({
+                command: "setReferenceGrouping",
+                payload: { grouping: groupingSelect.value },
+            });
+        });
+    }
+
+    if (hideTestsToggle) {
+        hideTestsToggle.addEventListener("click", () => {
+            hideTestsToggle.classList.toggle("toggled");
+            postReferenceFilter();
+        });
+    }
+
+    if (changedOnlyToggle) {
+        changedOnlyToggle.addEventListener("click", () => {
+            changedOnlyToggle.classList.toggle("toggled");
+            postReferenceFilter();
+        });
+    }
+
+    if (hideReviewedToggle) {
+        hideReviewedToggle.addEventListener("click", () => {
+            hideReviewedToggle.classList.toggle("toggled");
+            postReferenceFilter();
+        });
+    }
+
+    if (diffScopeToggle) {
+        diffScopeToggle.addEventListener("click", () => {
+            vscode.postMessage({ command: "chooseDiffScope" });
+        });
+    }
+
+    if (previewEditToggle) {
+        previewEditToggle.addEventListener("click", () => {
+            previewEditable = !previewEditable;
+            updatePreviewReadOnly();
+        });
+    }
+
+    if (replaceSelectedButton) {
+        replaceSelectedButton.addEventListener("click", () => {
+            vscode.postMessage({
+                command: "replaceInReferences",
+                payload: { leafIds: Array.from(checkedLeafIds) },
+            });
+        });
+    }
+
+    if (reviewSelectedButton) {
+        reviewSelectedButton.addEventListener("click", () => {
+            vscode.postMessage({
+                command: "setReviewed",
+                payload: { leafIds: Array.from(checkedLeafIds), reviewed: true },
+            });
+        });
+    }
+
+    if (unreviewSelectedButton) {
+        unreviewSelectedButton.addEventListener("click", () => {
+            vscode.postMessage({
+                command: "setReviewed",
+                payload: { leafIds: Array.from(checkedLeafIds), reviewed: false },
+            });
+        });
+    }
+
+    if (clearSelectionButton) {
+        clearSelectionButton.addEventListener("click", () => {
+            setCheckedLeafIds(new Set());
+        });
+    }
+
+    if (rerunSearchButton) {
+        rerunSearchButton.addEventListener("click", () => {
+            vscode.postMessage({ command: "rerunSearch" });
+        });
+    }
+
+    if (pinTabToggle) {
+        pinTabToggle.addEventListener("click", () => {
+            vscode.postMessage({ command: "togglePinActiveTab" });
+        });
+    }
+
+    if (resultTabsElement) {
+        resultTabsElement.addEventListener("click", (event) => {
+            const tabElement = event.target.closest(".result-tab");
+            if (!tabElement) return;
+            const id = parseInt(tabElement.dataset.tabId);
+            vscode.postMessage({
+                command: event.target.closest(".tab-close")
+                    ? "closeTab"
+                    : "activateTab",
+                payload: { id },
+            });
+        });
+    }
+
+    if (historyBackButton) {
+        historyBackButton.addEventListener("click", () => {
+            vscode.postMessage({
+                command: "navigateHistory",
+                payload: { delta: -1 },
+            });
+        });
+    }
+    if (historyForwardButton) {
+        historyForwardButton.addEventListener("click", () => {
+            vscode.postMessage({
+                command: "navigateHistory",
+                payload: { delta: 1 },
+            });
+        });
+    }
+    if (historyToggle && historyDropdown) {
+        historyToggle.addEventListener("click", () => {
+            historyDropdown.hidden = !historyDropdown.hidden;
+            historyToggle.classList.toggle("toggled", !historyDropdown.hidden);
+        });
+    }
+    if (historyList) {
+        historyList.addEventListener("click", (event) => {
+            const entryElement = event.target.closest(".history-entry");
+            if (!entryElement) return;
+            vscode.postMessage({
+                command: "navigateHistory",
+                payload: { index: parseInt(entryElement.dataset.index) },
+            });
+            historyDropdown.hidden = true;
+            historyToggle.classList.remove("toggled");
+        });
+    }
+    if (historyClearButton) {
+        historyClearButton.addEventListener("click", () => {
+            vscode.postMessage({ command: "clearHistory" });
+        });
+    }
+
+    if (exportResultsButton) {
+        exportResultsButton.addEventListener("click", () => {
+            vscode.postMessage({ command: "exportResults" });
+        });
+    }
+
+    if (snapshotsMenuButton) {
+        snapshotsMenuButton.addEventListener("click", () => {
+            vscode.postMessage({ command: "manageSnapshots" });
+        });
+    }
+
+    if (callDirectionToggle) {
+        callDirectionToggle.addEventListener("click", () => {
+            vscode.postMessage({ command: "toggleCallHierarchyDirection" });
         });
     }
 
@@ -281,45 +1921,45 @@
         const message = event.data;
         switch (message.command) {
             case "updateTreeData":
-                if (referenceTreeList) {
-                    referenceTreeList.innerHTML = renderTreeNodesHTML(
-                        message.payload.references
-                    );
-                    // Auto-expand first level (directories and files) and function groups
-                    referenceTreeList
-                        .querySelectorAll(
-                            ".directory-node, .file-node, .function-group-node"
-                        )
-                        .forEach((node) => {
-                            // Check if it's a direct child of the main list or a function group
-                            if (
-                                node.parentElement === referenceTreeList ||
-                                (node.parentElement.classList.contains(
-                                    "file-children"
-                                ) &&
-                                    node.classList.contains(
-                                        "function-group-node"
-                                    )) ||
-                                (node.parentElement.classList.contains(
-                                    "nested-list"
-                                ) &&
-                                    node.classList.contains("file-node") &&
-                                    node.parentElement.parentElement
-                                        .parentElement === referenceTreeList) // Expand files under root dirs
-                            ) {
-                                node.classList.add("expanded");
-                                const icon = node.querySelector(
-                                    ".node-label > .icon.codicon-chevron-right"
-                                );
-                                if (icon) {
-                                    // Ensure icon exists
-                                    icon.classList.remove(
-                                        "codicon-chevron-right"
-                                    );
-                                    icon.classList.add("codicon-chevron-down");
-                                }
-                            }
-                        });
+                setListMode(message.payload.searchMode);
+                setAccessFilter(message.payload.accessFilter || "all");
+                syncReferenceFilter(
+                    message.payload.filter,
+                    message.payload.visibleCount,
+                    message.payload.totalCount
+                );
+                syncReferenceGrouping(message.payload.grouping);
+                syncDiffScope(message.payload.diffScope);
+                if (
+                    (message.payload.preserveUiState || !message.payload.newResults) &&
+                    !pendingTreeRestore &&
+                    currentTabId !== undefined
+                ) {
+                    // Same results with shifted lines or another filter: keep what the user has open
+                    saveTabUiState(currentTabId);
+                    pendingTreeRestore = tabUiStates.get(currentTabId);
+                }
+                const treeRestore = pendingTreeRestore;
+                pendingTreeRestore = undefined;
+                setTreeData(message.payload.references);
+                if (treeRestore) {
+                    restoreTreeUiState(treeRestore);
+                } else {
+                    expandedKeys = new Set();
+                    selectedKey = undefined;
+                    focusedKey = undefined;
+                    if (message.payload.newResults) {
+                        checkAnchorKey = undefined;
+                        setCheckedLeafIds(new Set());
+                    }
+                    applyDefaultExpansion();
+                    refreshTree();
+                    if (referenceTreeContainer) {
+                        referenceTreeContainer.scrollTop = 0;
+                    }
+                }
+                if (monacoEditor) {
+                    updateReferenceDecorations(); // Results in the previewed file may have changed
                 }
                 if (initialMessageElement) {
                     initialMessageElement.style.display =
@@ -328,31 +1968,23 @@
                             : "none";
                 }
                 if (message.payload.references.length > 0) {
-                    const firstLeaf =
-                        referenceTreeList.querySelector(".reference-leaf");
-                    if (firstLeaf) {
-                        setTimeout(() => {
-                            // Simulate click to load context, ensures leafElement is valid for the click handler
-                            let clickTarget =
-                                firstLeaf.querySelector(
-                                    ".preview-text-content"
-                                ) ||
-                                firstLeaf.querySelector(".line-number") ||
-                                firstLeaf;
-                            const clickEvent = new MouseEvent("click", {
-                                bubbles: true,
-                                cancelable: true,
-                            });
-                            clickTarget.dispatchEvent(clickEvent);
-
-                            firstLeaf.scrollIntoView({
-                                behavior: "auto",
-                                block: "nearest",
-                            });
-                        }, 100); // Increased delay slightly for complex DOM updates
+                    const firstLeafRow = visibleRows.find(
+                        (row) => row.kind === "leaf"
+                    );
+                    // A restored tab keeps its own selection instead of previewing the first leaf
+                    if (
+                        firstLeafRow &&
+                        !treeRestore &&
+                        panelSettings.autoPreviewFirstResult
+                    ) {
+                        selectLeafRow(firstLeafRow);
+                        scrollTreeRowIntoView(firstLeafRow.key);
                     }
-                } else if (monacoEditor) {
-                    monacoEditor.setValue(
+                } else if (monacoEditor && message.payload.totalCount === 0) {
+                    // A filter hiding every result leaves the preview alone
+                    pendingPreviewEdits = [];
+                    setPreviewContent(
+                        monacoEditor.getModel(),
                         "// No references found or selected."
                     );
                     if (monacoEditor.getModel()) {
@@ -362,21 +1994,114 @@
                         );
                     }
                     currentMonacoFileUri = "";
-                    currentLineHighlightDecorationIds =
+                    updatePreviewReadOnly();
+                    referenceDecorationIds =
                         monacoEditor.deltaDecorations(
-                            currentLineHighlightDecorationIds,
+                            referenceDecorationIds,
                             []
                         );
                 }
                 break;
 
+            case "updateCallTreeData":
+                setListMode(message.payload.searchMode);
+                const callTreeRestore = pendingTreeRestore;
+                pendingTreeRestore = undefined;
+                setTreeData(message.payload.roots);
+                if (callTreeRestore) {
+                    // Only root nodes can be restored; deeper levels are loaded lazily
+                    restoreTreeUiState(callTreeRestore);
+                } else {
+                    expandedKeys = new Set();
+                    selectedKey = undefined;
+                    focusedKey = undefined;
+                    setCheckedLeafIds(new Set());
+                    if (referenceTreeContainer) {
+                        referenceTreeContainer.scrollTop = 0;
+                    }
+                    refreshTree();
+                    message.payload.roots.forEach((node) =>
+                        setCallNodeExpanded(node, true)
+                    );
+                }
+                if (initialMessageElement) {
+                    initialMessageElement.style.display =
+                        message.payload.roots.length === 0 ? "block" : "none";
+                }
+                break;
+
+            case "callHierarchyChildren": {
+                const { parentId, children } = message.payload;
+                const callNode = callNodesById.get(parentId);
+                if (!callNode) {
+                    break; // Tree was replaced while the request was in flight
+                }
+                callNode.loadState = "loaded";
+                callNode.children = children;
+                registerCallNodes(children);
+                refreshTree();
+                break;
+            }
+
+            case "updateSettings":
+                applySettings(message.payload);
+                break;
+
+            case "clearCheckedLeaves":
+                setCheckedLeafIds(new Set());
+                break;
+
+            case "revealReference":
+                revealTreeRow(message.payload.key);
+                break;
+
+            case "updateStaleState":
+                if (staleBanner) {
+                    staleBanner.hidden = !message.payload.stale;
+                }
+                break;
+
+            case "updateTabs":
+                renderTabs(message.payload.tabs, message.payload.activeTabId);
+                break;
+
+            case "updateHistory":
+                renderHistory(
+                    message.payload.entries,
+                    message.payload.currentIndex
+                );
+                break;
+
             case "updateMonacoContent":
                 if (monacoEditor) {
-                    const { content, language, revealLine, theme, fileUri } =
-                        message.payload;
+                    const {
+                        content,
+                        language,
+                        revealLine,
+                        theme,
+                        fileUri,
+                        version,
+                        preserveViewState,
+                    } = message.payload;
+                    if (
+                        preserveViewState &&
+                        (previewEditInFlight || pendingPreviewEdits.length > 0)
+                    ) {
+                        // Our own edits are still on their way; the refresh would drop newer typing
+                        break;
+                    }
+                    if (fileUri !== currentMonacoFileUri) {
+                        pendingPreviewEdits = [];
+                    }
                     currentMonacoFileUri = fileUri;
+                    currentMonacoVersion = version;
+                    currentMonacoRevealLine = revealLine;
+                    updatePreviewReadOnly();
 
-                    monaco.editor.setTheme(theme);
+                    if (theme && theme !== currentThemeBase) {
+                        currentThemeBase = theme;
+                        applyPreviewTheme();
+                    }
                     let model = monacoEditor.getModel();
                     if (
                         model &&
@@ -386,7 +2111,14 @@
                     ) {
                         // Only set value if content is different or model is the same but needs update
                         if (model.getValue() !== content) {
-                            model.setValue(content);
+                            // Live edits of the previewed document shouldn't jump the view
+                            const viewState = preserveViewState
+                                ? monacoEditor.saveViewState()
+                                : null;
+                            setPreviewContent(model, content);
+                            if (viewState) {
+                                monacoEditor.restoreViewState(viewState);
+                            }
                         }
                     } else {
                         if (model && !model.isDisposed()) model.dispose();
@@ -401,40 +2133,82 @@
                         monacoEditor.setModel(model);
                     }
 
-                    monacoEditor.revealLineInCenterIfOutsideViewport(
-                        revealLine,
-                        monaco.editor.ScrollType.Smooth
-                    );
-                    monacoEditor.setPosition({
-                        lineNumber: revealLine,
-                        column: 1,
-                    });
-
-                    currentLineHighlightDecorationIds =
-                        monacoEditor.deltaDecorations(
-                            currentLineHighlightDecorationIds,
-                            [
-                                {
-                                    range: new monaco.Range(
-                                        revealLine,
-                                        1,
-                                        revealLine,
-                                        model.getLineMaxColumn(revealLine)
-                                    ),
-                                    options: {
-                                        isWholeLine: true,
-                                        className:
-                                            "current-reference-line-highlight",
-                                    },
-                                },
-                            ]
+                    const monacoRestore = pendingMonacoRestore;
+                    pendingMonacoRestore = undefined;
+                    if (preserveViewState) {
+                        // Keep scroll position and cursor as they are
+                    } else if (
+                        monacoRestore &&
+                        monacoRestore.monacoViewState &&
+                        monacoRestore.monacoFileUri === fileUri
+                    ) {
+                        monacoEditor.restoreViewState(
+                            monacoRestore.monacoViewState
+                        );
+                    } else {
+                        const revealLeaf = getSelectedPreviewLeaf(
+                            getPreviewFileLeaves()
                         );
+                        monacoEditor.revealLineInCenterIfOutsideViewport(
+                            revealLine,
+                            monaco.editor.ScrollType.Smooth
+                        );
+                        monacoEditor.setPosition({
+                            lineNumber: revealLine,
+                            column:
+                                revealLeaf && revealLeaf.line + 1 === revealLine
+                                    ? revealLeaf.character + 1
+                                    : 1,
+                        });
+                    }
+                    updateReferenceDecorations();
+                }
+                break;
+
+            case "previewEditResult":
+                previewEditInFlight = false;
+                if (message.payload.uri !== currentMonacoFileUri) {
+                    break; // Preview moved on to another file meanwhile
+                }
+                currentMonacoVersion = message.payload.version;
+                if (message.payload.applied) {
+                    flushPreviewEdits();
+                } else if (monacoEditor && monacoEditor.getModel()) {
+                    // Conflict: drop local edits and show the document as it really is
+                    pendingPreviewEdits = [];
+                    const viewState = monacoEditor.saveViewState();
+                    setPreviewContent(
+                        monacoEditor.getModel(),
+                        message.payload.content
+                    );
+                    monacoEditor.restoreViewState(viewState);
                 }
                 break;
 
             case "updateMonacoTheme":
-                if (monacoEditor && message.payload.theme) {
-                    monaco.editor.setTheme(message.payload.theme);
+                currentThemeBase = message.payload.theme || currentThemeBase;
+                currentTokenRules = message.payload.tokenRules || [];
+                if (monacoEditor) {
+                    monacoEditor.updateOptions({
+                        "semanticHighlighting.enabled":
+                            message.payload.semanticHighlighting === true,
+                    });
+                }
+                applyPreviewTheme();
+                break;
+
+            case "languageFeatureResult": {
+                const resolve = pendingLanguageRequests.get(
+                    message.payload.requestId
+                );
+                pendingLanguageRequests.delete(message.payload.requestId);
+                if (resolve) resolve(message.payload.result);
+                break;
+            }
+
+            case "updateSemanticTokens":
+                if (monacoEditor) {
+                    updateSemanticTokens(message.payload);
                 }
                 break;
         }
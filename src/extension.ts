@@ -5,43 +5,349 @@ import * as path from "path";
 // --- Data Structures ---
 interface ReferenceLeaf {
     type: "leaf";
+    id: string; // Stable across line shifts, used by the webview to keep selection
     uri: string;
     fileName: string; // Kept for context, but might be redundant if parent FileNode always exists
     fullPath: string;
     line: number; // 0-indexed
     character: number; // 0-indexed
+    endLine: number; // End of the reference range, for highlighting it in the preview
+    endCharacter: number;
     previewText: string;
-    enclosingSymbol?: string;
+    enclosingSymbol?: string; // Qualified symbol path, e.g. "Namespace > Class > method"
+    symbolPath?: EnclosingSymbol[]; // Outermost first, used to nest function groups
+    containingSymbols?: EnclosingSymbol[]; // Every symbol around the reference; symbolPath keeps the grouping kinds
+    accessKind?: ReferenceAccessKind; // Only classified for "references" searches
+    textual?: boolean; // Found by the whole-word text search rather than a language provider
+    changed?: boolean; // On a line changed relative to the diff scope's git ref
+    stale?: boolean; // An edit overlapped the reference, so it may no longer be one
+    reviewed?: boolean; // Review progress is persisted per symbol, see PersistedReview
+    reviewNote?: string;
+    diffStatus?: SnapshotDiffStatus; // Only set in snapshot comparisons
     originalLocation: vscode.Location;
 }
 
+interface EnclosingSymbol {
+    name: string;
+    kind: vscode.SymbolKind;
+    kindIcon: string; // Codicon id, e.g. "symbol-class"
+    line: number; // 0-indexed start of the symbol, tells apart symbols sharing a name
+    character: number;
+}
+
+type ReferenceAccessKind = "read" | "write" | "text";
+type AccessFilter = "all" | "read" | "write";
+
+interface ReferenceFilter {
+    text: string; // Matched against previewText, fileName and enclosingSymbol
+    globs: string; // Comma-separated, "!" prefix excludes
+    hideTestFiles: boolean;
+    changedOnly: boolean; // Only references on lines changed relative to the diff scope
+    hideReviewed: boolean;
+}
+
+// Git ref the working tree is compared with to mark references on changed lines
+interface DiffScope {
+    ref: string;
+    label: string;
+}
+
+const TEST_FILE_GLOBS = [
+    "**/*.{test,spec}.*",
+    "**/*_test.*",
+    "**/test_*.py",
+    "**/{test,tests,__tests__}/**",
+];
+
 interface FunctionGroupNode {
     type: "function";
-    functionName: string;
-    references: ReferenceLeaf[];
+    functionName: string; // The symbol's name, or its qualified path for top-level groups
+    kindIcon: string; // Codicon id of the symbol kind
+    line: number; // 0-indexed start of the symbol; groups are ordered by position
+    character: number;
+    uri?: string; // Set for top-level groups when grouping by symbol only
+    description?: string; // File name shown next to top-level groups
+    children: FileChildNode[]; // Nested symbol groups and references, in source order
+    totalReferences?: number; // Set when filtered: reference count before filtering
+    reviewedReferences?: number; // Set when filtered, like totalReferences
 }
 
 interface FileNode {
     type: "file";
+    uri: string; // Files are keyed by URI: a git: or untitled: document can share a path with a file
     fileName: string;
     fullPath: string;
+    description?: string; // Workspace-relative directory, shown when files aren't nested in folders
     children: (FunctionGroupNode | ReferenceLeaf)[]; // Can contain functions or loose references
+    totalReferences?: number;
+    reviewedReferences?: number;
 }
 
 interface DirectoryNode {
     type: "directory";
-    dirName: string;
+    dirName: string; // Compacted chains of single-child folders are joined, e.g. "src/utils"
     fullPath: string;
     children: (DirectoryNode | FileNode)[];
+    totalReferences?: number;
+    reviewedReferences?: number;
 }
 
-type TreeNode = DirectoryNode | FileNode; // Top-level can be dirs or files
+// Top-level nodes depend on the grouping: dirs and files, function groups or plain leaves
+type TreeNode = DirectoryNode | FileNode | FunctionGroupNode | ReferenceLeaf;
 type FileChildNode = FunctionGroupNode | ReferenceLeaf; // Children of a FileNode
 
+// folders: nested directories, files: flat list of files, symbols: enclosing symbols only,
+// flat: plain list of references
+type ReferenceGrouping = "folders" | "files" | "symbols" | "flat";
+
+interface CallSiteLeaf {
+    type: "callSite";
+    uri: string;
+    fullPath: string;
+    line: number; // 0-indexed
+    character: number; // 0-indexed
+    previewText: string;
+}
+
+interface CallHierarchyNode {
+    type: "call";
+    id: string; // Key into the provider's item cache, used to expand the node lazily
+    name: string;
+    detail: string;
+    kindIcon: string; // Codicon id, e.g. "symbol-method"
+    uri: string;
+    fullPath: string;
+    line: number; // 0-indexed, start of the item's selection range
+    character: number; // 0-indexed
+    callSites: CallSiteLeaf[]; // Where the call happens (in the caller for incoming, in the parent for outgoing)
+}
+
+type CallHierarchyDirection = "incoming" | "outgoing";
+type PanelMode = "references" | "callHierarchy";
+
+export type LocationSearchKind =
+    | "references"
+    | "implementations"
+    | "typeDefinitions"
+    | "declarations"
+    | "supertypes"
+    | "subtypes"
+    | "textOccurrences";
+type SearchMode = LocationSearchKind | "incomingCalls" | "outgoingCalls";
+
+// Returned from activate() for other extensions to push results into the panel
+export interface ReferencesContextApi {
+    // Runs a search at a position, like the editor commands do at the cursor
+    showReferences(uri: vscode.Uri, position: vscode.Position, kind?: LocationSearchKind): Promise<void>;
+    // Shows any set of locations (lint hits, call sites, test failures...) under the given title
+    showLocations(locations: (vscode.Location | vscode.LocationLink)[], title: string): Promise<void>;
+}
+
+interface SearchOrigin {
+    uri: vscode.Uri;
+    position: vscode.Position;
+    languageId: string;
+    symbolName?: string; // Word under the cursor when the search started
+}
+
+interface SearchRunOptions {
+    addToHistory?: boolean; // Defaults to true
+    reuseActiveTab?: boolean; // Replace the active tab's results even if it is pinned
+}
+
+// What a tab's results were searched for
+interface SearchContext {
+    mode: SearchMode;
+    origin?: SearchOrigin;
+    locationSetTitle?: string;
+}
+
+// Where a search writes its results, and what to put back when it finds nothing
+interface SearchRun {
+    id: number;
+    tabId: number;
+    createdTab: boolean; // A pinned tab was active, so a new tab was opened for the search
+    previousTabId: number;
+    previousContext: SearchContext;
+}
+
+interface SearchHistoryEntry {
+    mode: SearchMode;
+    origin: SearchOrigin;
+    timestamp: number;
+    // Results are cached in memory only; entries restored from workspaceState re-run the search
+    references?: TreeNode[];
+    callHierarchyItems?: vscode.CallHierarchyItem[];
+    language?: string;
+}
+
+// Shape of a history entry in workspaceState
+interface PersistedSearchHistoryEntry {
+    mode: SearchMode;
+    uri: string;
+    line: number;
+    character: number;
+    languageId: string;
+    symbolName?: string;
+    timestamp: number;
+}
+
+// Review state of one reference in workspaceState, keyed by the searched symbol's declaration. Re-run
+// searches match it again by position, or by line text within a few lines of it.
+interface PersistedReview {
+    uri: string;
+    line: number;
+    character: number;
+    lineText: string; // Trimmed, like ReferenceLeaf.previewText
+    reviewed: boolean;
+    note?: string;
+}
+
+// Result set saved in workspaceState to compare later runs with
+interface ResultSnapshot {
+    name: string;
+    createdAt: number;
+    references: SnapshotReference[];
+}
+
+interface SnapshotReference {
+    uri: string;
+    line: number;
+    character: number;
+    endLine: number;
+    endCharacter: number;
+    previewText: string;
+    containingSymbols?: EnclosingSymbol[];
+}
+
+type SnapshotDiffStatus = "added" | "removed" | "unchanged";
+
+// State of one result tab in the panel. The active tab lives in ReferencesViewProvider's
+// fields; this snapshot is refreshed whenever another tab is activated.
+interface ResultTabState {
+    id: number;
+    pinned: boolean;
+    references: TreeNode[];
+    language: string;
+    monacoContent: string;
+    monacoRevealLine: number;
+    monacoFileUri: string;
+    mode: PanelMode;
+    callHierarchyDirection: CallHierarchyDirection;
+    callHierarchyRoots: vscode.CallHierarchyItem[];
+    callHierarchyRootNodes: CallHierarchyNode[];
+    callHierarchyItems: Map<string, vscode.CallHierarchyItem>;
+    searchMode: SearchMode;
+    searchOrigin?: SearchOrigin;
+    locationSetTitle?: string; // Set instead of searchOrigin when the locations were passed in
+    accessFilter: AccessFilter;
+    referenceFilter: ReferenceFilter;
+    isStale: boolean;
+    runId: number; // Latest search writing into this tab; results of older ones are dropped
+}
+
+const DEFAULT_MONACO_CONTENT =
+    "// Select a reference on the left to see its context here.\n// Double-click a reference to navigate in the main editor.";
+
+type ExportFormat = "markdown" | "json" | "csv";
+type ExportDestination = "untitled" | "clipboard" | "file";
+
+const EXPORT_FORMATS: {
+    [format in ExportFormat]: { label: string; languageId: string; extension: string };
+} = {
+    markdown: { label: "Markdown", languageId: "markdown", extension: "md" },
+    json: { label: "JSON", languageId: "json", extension: "json" },
+    csv: { label: "CSV", languageId: "csv", extension: "csv" },
+};
+
+// referencesContext.* settings; the webview gets them with every change
+interface PanelSettings {
+    defaultGrouping: ReferenceGrouping;
+    autoExpand: "all" | "folders" | "none";
+    autoPreviewFirstResult: boolean;
+    openReferenceOn: "doubleClick" | "singleClick";
+    preview: {
+        minimap: boolean;
+        wordWrap: "off" | "on";
+        lineNumbers: "on" | "off" | "relative";
+    };
+}
+
+function getPanelSettings(): PanelSettings {
+    const config = vscode.workspace.getConfiguration("referencesContext");
+    return {
+        defaultGrouping: config.get<ReferenceGrouping>("defaultGrouping", "folders"),
+        autoExpand: config.get<PanelSettings["autoExpand"]>("autoExpand", "all"),
+        autoPreviewFirstResult: config.get<boolean>("preview.autoPreviewFirstResult", true),
+        openReferenceOn: config.get<PanelSettings["openReferenceOn"]>("openReferenceOn", "doubleClick"),
+        preview: {
+            minimap: config.get<boolean>("preview.minimap", false),
+            wordWrap: config.get<PanelSettings["preview"]["wordWrap"]>("preview.wordWrap", "off"),
+            lineNumbers: config.get<PanelSettings["preview"]["lineNumbers"]>("preview.lineNumbers", "on"),
+        },
+    };
+}
+
+const SEARCH_HISTORY_STATE_KEY = "referencesContext.searchHistory";
+const REFERENCE_GROUPING_STATE_KEY = "referencesContext.grouping";
+const MAX_SEARCH_HISTORY_ENTRIES = 50;
+const REVIEW_STATE_KEY = "referencesContext.reviews";
+const REVIEW_LINE_TOLERANCE = 20; // How far a reviewed line may move and still be matched by its text
+const SNAPSHOT_STATE_KEY = "referencesContext.snapshots";
+const MAX_SNAPSHOTS = 20;
+
+// Every location-based search shares the grouping pipeline; only the provider differs
+const LOCATION_SEARCHES: {
+    // Searches without a providerCommand don't go through a language provider
+    [kind in LocationSearchKind]: { commandId: string; providerCommand?: string; title: string };
+} = {
+    references: {
+        commandId: "references-with-context.showReferencesInPanel",
+        providerCommand: "vscode.executeReferenceProvider",
+        title: "References",
+    },
+    implementations: {
+        commandId: "references-with-context.showImplementationsInPanel",
+        providerCommand: "vscode.executeImplementationProvider",
+        title: "Implementations",
+    },
+    typeDefinitions: {
+        commandId: "references-with-context.showTypeDefinitionsInPanel",
+        providerCommand: "vscode.executeTypeDefinitionProvider",
+        title: "Type Definitions",
+    },
+    declarations: {
+        commandId: "references-with-context.showDeclarationsInPanel",
+        providerCommand: "vscode.executeDeclarationProvider",
+        title: "Declarations",
+    },
+    supertypes: {
+        commandId: "references-with-context.showSupertypesInPanel",
+        providerCommand: "vscode.provideSupertypes",
+        title: "Supertypes",
+    },
+    subtypes: {
+        commandId: "references-with-context.showSubtypesInPanel",
+        providerCommand: "vscode.provideSubtypes",
+        title: "Subtypes",
+    },
+    textOccurrences: {
+        commandId: "references-with-context.showTextOccurrencesInPanel",
+        title: "Text Occurrences",
+    },
+};
+
+const TEXT_SEARCH_MAX_RESULTS = 5000;
+const TEXT_SEARCH_MAX_FILE_SIZE = 2 * 1024 * 1024; // Larger files are most likely generated or data
+
 let referencesViewProvider: ReferencesViewProvider | undefined;
+let nextReferenceLeafId = 0;
 
-export function activate(context: vscode.ExtensionContext) {
-    referencesViewProvider = new ReferencesViewProvider(context.extensionUri);
+export function activate(context: vscode.ExtensionContext): ReferencesContextApi {
+    referencesViewProvider = new ReferencesViewProvider(
+        context.extensionUri,
+        context.workspaceState
+    );
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(
             ReferencesViewProvider.viewType,
@@ -53,631 +359,3933 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand(
-            "references-with-context.showReferencesInPanel",
-            async () => {
-                const editor = vscode.window.activeTextEditor;
-                if (!editor || !referencesViewProvider) {
-                    vscode.window.showInformationMessage(
-                        "No active editor or view provider not ready."
-                    );
-                    return;
-                }
-                const position = editor.selection.active;
-                const documentUri = editor.document.uri;
-                let codeLanguage = editor.document.languageId; // Default language
-
-                await vscode.window.withProgress(
-                    {
-                        location: { viewId: ReferencesViewProvider.viewType },
-                        title: "Finding References...",
-                        cancellable: false,
-                    },
-                    async (progress) => {
-                        try {
-                            progress.report({
-                                increment: 0,
-                                message: "Executing reference provider...",
-                            });
-                            const locations: vscode.Location[] | undefined =
-                                await vscode.commands.executeCommand<
-                                    vscode.Location[]
-                                >(
-                                    "vscode.executeReferenceProvider",
-                                    documentUri,
-                                    position
-                                );
-                            progress.report({
-                                increment: 30,
-                                message: "Grouping references and finding symbols...",
-                            });
-
-                            if (!locations || locations.length === 0) {
-                                vscode.window.showInformationMessage(
-                                    "No references found."
-                                );
-                                referencesViewProvider?.updateViewData(
-                                    [],
-                                    codeLanguage,
-                                    true
-                                );
-                                return;
-                            }
-                            // If locations are found, try to use the language of the first reference target
-                            // as it might be more accurate for Monaco syntax highlighting if refs are cross-file.
-                            if (locations[0]) {
-                                try {
-                                    const firstRefDoc = await vscode.workspace.openTextDocument(locations[0].uri);
-                                    codeLanguage = firstRefDoc.languageId;
-                                } catch (e) {
-                                    console.warn("Could not determine language from first reference, using active editor's language.", e);
-                                }
-                            }
-
-                            const groupedReferences =
-                                await groupReferencesByDirectoryAndFile(
-                                    locations
-                                );
-                            progress.report({
-                                increment: 70,
-                                message: "Updating view...",
-                            });
-                            referencesViewProvider?.updateViewData(
-                                groupedReferences,
-                                codeLanguage, // Use potentially updated language
-                                true
-                            );
+        vscode.workspace.onDidChangeTextDocument((event) =>
+            referencesViewProvider?.handleDocumentChange(event)
+        ),
+        vscode.workspace.onDidChangeConfiguration((event) =>
+            referencesViewProvider?.handleConfigurationChange(event)
+        )
+    );
 
-                            if (groupedReferences.length > 0) {
-                                await vscode.commands.executeCommand(
-                                    `workbench.view.extension.referencesContextViewContainer`
-                                );
-                                await vscode.commands.executeCommand('workbench.action.focusPanel');
-                            }
-                        } catch (error) {
-                            console.error(
-                                "Error in 'showReferencesInPanel':",
-                                error
-                            );
-                            vscode.window.showErrorMessage(
-                                "Failed to process references."
-                            );
-                            referencesViewProvider?.updateViewData(
-                                [],
-                                codeLanguage,
-                                true
-                            );
-                        }
+    for (const kind of Object.keys(LOCATION_SEARCHES) as LocationSearchKind[]) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand(
+                LOCATION_SEARCHES[kind].commandId,
+                async (target?: unknown, positionOrTitle?: unknown) => {
+                    // (Location[], title?) shows those locations instead of running the search
+                    if (Array.isArray(target)) {
+                        await showLocationSetInPanel(
+                            parseLocationArguments(target),
+                            typeof positionOrTitle === "string" ? positionOrTitle : LOCATION_SEARCHES[kind].title
+                        );
+                        return;
                     }
-                );
-            }
+                    await showLocationsInPanel(kind, await getCommandOrigin(target, positionOrTitle));
+                }
+            )
+        );
+    }
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "references-with-context.showIncomingCallsInPanel",
+            async (uri?: unknown, position?: unknown) =>
+                showCallHierarchyInPanel("incoming", await getCommandOrigin(uri, position))
+        ),
+        vscode.commands.registerCommand(
+            "references-with-context.showOutgoingCallsInPanel",
+            async (uri?: unknown, position?: unknown) =>
+                showCallHierarchyInPanel("outgoing", await getCommandOrigin(uri, position))
+        ),
+        vscode.commands.registerCommand(
+            "references-with-context.exportResults",
+            () => referencesViewProvider?.exportResults()
+        ),
+        vscode.commands.registerCommand(
+            "references-with-context.chooseDiffScope",
+            () => referencesViewProvider?.chooseDiffScope()
+        ),
+        vscode.commands.registerCommand(
+            "references-with-context.manageSnapshots",
+            () => referencesViewProvider?.manageSnapshots()
+        ),
+        vscode.commands.registerCommand(
+            "references-with-context.nextReference",
+            () => referencesViewProvider?.goToAdjacentReference(1)
+        ),
+        vscode.commands.registerCommand(
+            "references-with-context.previousReference",
+            () => referencesViewProvider?.goToAdjacentReference(-1)
         )
     );
+
+    return {
+        // Other extensions aren't type-checked against this API, so arguments are checked here
+        showReferences: async (uri, position, kind = "references") => {
+            if (!Object.prototype.hasOwnProperty.call(LOCATION_SEARCHES, kind)) {
+                throw new Error(
+                    `Unknown search kind '${kind}'. Expected one of: ${Object.keys(LOCATION_SEARCHES).join(", ")}.`
+                );
+            }
+            if (!(uri instanceof vscode.Uri) || !(position instanceof vscode.Position)) {
+                throw new Error("showReferences expects a vscode.Uri and a vscode.Position.");
+            }
+            const document = await vscode.workspace.openTextDocument(uri);
+            await showLocationsInPanel(kind, createSearchOrigin(document, position));
+        },
+        showLocations: async (locations, title) => {
+            if (!Array.isArray(locations) || typeof title !== "string") {
+                throw new Error("showLocations expects an array of locations and a title.");
+            }
+            await showLocationSetInPanel(parseLocationArguments(locations), title);
+        },
+    };
 }
 
-class ReferencesViewProvider implements vscode.WebviewViewProvider {
-    public static readonly viewType = "referencesContextView.mainView";
-    private _view?: vscode.WebviewView;
-    private _currentReferences: TreeNode[] = [];
-    private _currentLanguage: string = "plaintext"; // Language for Monaco editor
-    private _currentMonacoContent: string =
-        "// Select a reference on the left to see its context here.\n// Double-click a reference to navigate in the main editor.";
-    private _currentMonacoRevealLine: number = 1;
-    private _currentMonacoFileUri: string = "";
-    private _currentMonacoTheme: string = "vs";
-    private _themeChangeListener?: vscode.Disposable;
+async function getCommandOrigin(uri: unknown, position: unknown): Promise<SearchOrigin | undefined> {
+    // Menus only pass the editor's resource; with a position the command was called programmatically
+    if (!(uri instanceof vscode.Uri) || !(position instanceof vscode.Position)) {
+        return getActiveEditorOrigin();
+    }
+    try {
+        const document = await vscode.workspace.openTextDocument(uri);
+        return createSearchOrigin(document, position);
+    } catch (e) {
+        console.warn(`Could not open ${uri.toString()} to search from.`, e);
+        return undefined;
+    }
+}
 
-    constructor(private readonly _extensionUri: vscode.Uri) {}
+function getActiveEditorOrigin(): SearchOrigin | undefined {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        return undefined;
+    }
+    return createSearchOrigin(editor.document, editor.selection.active);
+}
 
-    public resolveWebviewView(
-        webviewView: vscode.WebviewView,
-        _context: vscode.WebviewViewResolveContext,
-        _token: vscode.CancellationToken
-    ) {
-        this._view = webviewView;
+function createSearchOrigin(document: vscode.TextDocument, position: vscode.Position): SearchOrigin {
+    const wordRange = document.getWordRangeAtPosition(position);
+    return {
+        uri: document.uri,
+        position: position,
+        languageId: document.languageId,
+        symbolName: wordRange ? document.getText(wordRange) : undefined,
+    };
+}
 
-        webviewView.webview.options = {
-            enableScripts: true,
-            localResourceRoots: [
-                vscode.Uri.joinPath(this._extensionUri, "media"),
-                vscode.Uri.joinPath(this._extensionUri, "media", "monaco-vs"),
-            ],
-        };
+async function revealReferencesPanel() {
+    await vscode.commands.executeCommand(
+        `workbench.view.extension.referencesContextViewContainer`
+    );
+    await vscode.commands.executeCommand('workbench.action.focusPanel');
+}
 
-        this._updateHtmlForView();
+async function showLocationsInPanel(
+    kind: LocationSearchKind,
+    origin: SearchOrigin | undefined = getActiveEditorOrigin(),
+    options: SearchRunOptions = {}
+) {
+    if (!origin || !referencesViewProvider) {
+        vscode.window.showInformationMessage(
+            "No active editor or view provider not ready."
+        );
+        return;
+    }
+    const search = LOCATION_SEARCHES[kind];
+    const run = referencesViewProvider.setSearchContext(kind, origin, options.reuseActiveTab);
 
-        webviewView.webview.onDidReceiveMessage(async (message) => {
-            switch (message.command) {
-                case "getContextMonaco":
-                    const refUriStr = message.payload.uri;
-                    const refUri = vscode.Uri.parse(refUriStr);
-                    const refLine0Indexed = message.payload.line;
-                    // The language for Monaco should ideally be determined from the file itself,
-                    // not just the language of the file where "find references" was initiated.
-                    let monacoLanguage = this._currentLanguage; // Fallback
-                    try {
-                        const doc = await vscode.workspace.openTextDocument(refUri);
-                        monacoLanguage = doc.languageId;
-                    } catch (e) {
-                        console.warn(`Could not determine language for ${refUriStr}, falling back to ${this._currentLanguage}`);
-                    }
-                    
-                    this._currentMonacoTheme = vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark ? "vs-dark" : "vs";
-                    this._currentMonacoFileUri = refUriStr; 
+    await vscode.window.withProgress(
+        {
+            location: { viewId: ReferencesViewProvider.viewType },
+            title: `Finding ${search.title}...`,
+            cancellable: true,
+        },
+        async (progress, token) => {
+            try {
+                progress.report({
+                    increment: 0,
+                    message: `Executing ${search.title.toLowerCase()} provider...`,
+                });
+                let locations = await findLocations(kind, origin, token);
+                // Files without a language server (YAML, SQL, templates...) still mention the symbol
+                let textual = kind === "textOccurrences";
+                if (
+                    locations.length === 0 &&
+                    kind === "references" &&
+                    origin.symbolName &&
+                    vscode.workspace.getConfiguration("referencesContext").get<boolean>("textSearchFallback", true)
+                ) {
+                    progress.report({
+                        message: `No references found, searching for '${origin.symbolName}' as text...`,
+                    });
+                    locations = await findLocations("textOccurrences", origin, token);
+                    textual = true;
+                    // Shown as what it is: no access kinds to filter, and a re-run searches the text again
+                    referencesViewProvider?.setRunSearchMode(run, "textOccurrences");
+                }
+                progress.report({ increment: 30 });
+                await showGroupedLocations(locations, textual ? LOCATION_SEARCHES.textOccurrences.title : search.title, origin.languageId, {
+                    classifyAccess: kind === "references" && !textual,
+                    textual: textual,
+                    addToHistory: options.addToHistory !== false,
+                    run: run,
+                    progress: progress,
+                    token: token,
+                });
+            } catch (error) {
+                console.error(
+                    `Error in '${search.commandId}':`,
+                    error
+                );
+                vscode.window.showErrorMessage(
+                    `Failed to process ${search.title.toLowerCase()}.`
+                );
+                referencesViewProvider?.restoreSearchContext(run);
+            }
+        }
+    );
+}
 
-                    try {
-                        const fullFileContent = await getFullFileContent(refUri);
-                        this._currentMonacoContent = fullFileContent;
-                        this._currentMonacoRevealLine = refLine0Indexed + 1; 
+async function showLocationSetInPanel(
+    locations: vscode.Location[],
+    title: string
+) {
+    if (!referencesViewProvider) {
+        vscode.window.showInformationMessage("View provider not ready.");
+        return;
+    }
+    const run = referencesViewProvider.setLocationSetContext(title);
 
-                        this._view?.webview.postMessage({
-                            command: "updateMonacoContent",
-                            payload: {
-                                content: this._currentMonacoContent,
-                                language: monacoLanguage, // Use determined language
-                                revealLine: this._currentMonacoRevealLine,
-                                theme: this._currentMonacoTheme,
-                                fileUri: this._currentMonacoFileUri, 
-                            },
-                        });
-                    } catch (e) {
-                        this._currentMonacoContent = `// Error loading content for ${path.basename(refUri.fsPath)}\n// ${e instanceof Error ? e.message : String(e)}`;
-                        this._currentMonacoRevealLine = 1;
-                        this._view?.webview.postMessage({
-                            command: "updateMonacoContent",
-                            payload: {
-                                content: this._currentMonacoContent,
-                                language: "plaintext", // Fallback on error
-                                revealLine: this._currentMonacoRevealLine,
-                                theme: this._currentMonacoTheme,
-                                fileUri: this._currentMonacoFileUri, 
-                            },
-                        });
-                    }
-                    return;
+    await vscode.window.withProgress(
+        {
+            location: { viewId: ReferencesViewProvider.viewType },
+            title: `Loading ${title}...`,
+            cancellable: true,
+        },
+        async (progress, token) => {
+            try {
+                await showGroupedLocations(locations, title, "plaintext", {
+                    classifyAccess: false,
+                    textual: false,
+                    addToHistory: false, // History entries re-run searches, a passed-in set can't be re-run
+                    run: run,
+                    progress: progress,
+                    token: token,
+                });
+            } catch (error) {
+                console.error(`Error showing '${title}':`, error);
+                vscode.window.showErrorMessage(`Failed to process ${title}.`);
+                referencesViewProvider?.restoreSearchContext(run);
+            }
+        }
+    );
+}
 
-                case "explicitNavigateTo": 
-                    const navUri = vscode.Uri.parse(message.payload.uri);
-                    const navRange = new vscode.Range(
-                        new vscode.Position(message.payload.line, message.payload.character),
-                        new vscode.Position(message.payload.line, message.payload.character)
-                    );
-                    this.navigateToLocation(navUri, navRange);
-                    return;
+async function showGroupedLocations(
+    locations: vscode.Location[],
+    title: string,
+    fallbackLanguage: string,
+    options: {
+        classifyAccess: boolean;
+        textual: boolean;
+        addToHistory: boolean;
+        run: SearchRun;
+        progress: vscode.Progress<{ message?: string; increment?: number }>;
+        token: vscode.CancellationToken;
+    }
+) {
+    const { progress, token } = options;
+    let codeLanguage = fallbackLanguage;
+    progress.report({
+        message: `Grouping ${title.toLowerCase()} and finding symbols...`,
+    });
 
-                case "monacoAction": 
-                    const { actionType, uri: monacoFileUriStr, position: monacoPosition } = message.payload;
-                    const monacoFileUriFromAction = vscode.Uri.parse(monacoFileUriStr); // Renamed to avoid conflict
-                    const vscPosition = new vscode.Position(monacoPosition.lineNumber -1, monacoPosition.column -1); 
+    if (locations.length === 0) {
+        vscode.window.showInformationMessage(
+            `No ${title.toLowerCase()} found.`
+        );
+        // The tab keeps showing what it had, under that search's title
+        referencesViewProvider?.restoreSearchContext(options.run);
+        return;
+    }
+    // If locations are found, try to use the language of the first reference target
+    // as it might be more accurate for Monaco syntax highlighting if refs are cross-file.
+    try {
+        const firstRefDoc = await vscode.workspace.openTextDocument(locations[0].uri);
+        codeLanguage = firstRefDoc.languageId;
+    } catch (e) {
+        console.warn("Could not determine language from first reference, using active editor's language.", e);
+    }
 
-                    if (actionType === "goToDefinition") {
-                        const definitions: vscode.LocationLink[] | vscode.Location[] | undefined =
-                            await vscode.commands.executeCommand<vscode.LocationLink[] | vscode.Location[]>(
-                                "vscode.executeDefinitionProvider",
-                                monacoFileUriFromAction,
-                                vscPosition
-                            );
-                        if (definitions && definitions.length > 0) {
-                            const firstDef = definitions[0]; 
-                            
-                            let targetUriToNavigate: vscode.Uri;
-                            let targetRangeToNavigate: vscode.Range;
-
-                            if ('targetUri' in firstDef) { 
-                                targetUriToNavigate = firstDef.targetUri;
-                                targetRangeToNavigate = firstDef.targetSelectionRange || firstDef.targetRange;
-                            } else { 
-                                targetUriToNavigate = firstDef.uri;
-                                targetRangeToNavigate = firstDef.range;
-                            }
-                            this.navigateToLocation(targetUriToNavigate, targetRangeToNavigate);
-                        } else {
-                            vscode.window.showInformationMessage("No definition found.");
-                        }
-                    } else if (actionType === "peekDefinition") {
-                         vscode.commands.executeCommand(
-                            "editor.action.peekDefinition",
-                            monacoFileUriFromAction,
-                            vscPosition
-                        );
+    // Partial trees are streamed to the panel while files are processed
+    let hasShownPartialResult = false;
+    const groupedReferences =
+        await groupReferencesByDirectoryAndFile(
+            locations,
+            {
+                grouping: referencesViewProvider?.getReferenceGrouping(),
+                classifyAccess: options.classifyAccess,
+                textual: options.textual,
+                token: token,
+                onFileProcessed: (processedFiles, totalFiles) => {
+                    progress.report({
+                        increment: 70 / totalFiles,
+                        message: `Grouping ${title.toLowerCase()} (${processedFiles}/${totalFiles} files)...`,
+                    });
+                },
+                onPartialResult: (partialReferences) => {
+                    referencesViewProvider?.updateViewData(
+                        partialReferences,
+                        codeLanguage,
+                        !hasShownPartialResult,
+                        hasShownPartialResult,
+                        options.run
+                    );
+                    if (!hasShownPartialResult) {
+                        hasShownPartialResult = true;
+                        revealReferencesPanel();
                     }
-                    return;
-
-                case "webviewReady":
-                    this.sendCurrentDataToWebview();
-                    return;
+                },
             }
-        });
+        );
+    await referencesViewProvider?.markChangedReferences(groupedReferences);
+    await referencesViewProvider?.restoreReviews(groupedReferences, options.run);
+    if (!referencesViewProvider?.isCurrentRun(options.run)) {
+        return; // The tab was closed or another search took it over meanwhile
+    }
+    referencesViewProvider.updateViewData(
+        groupedReferences,
+        codeLanguage, // Use potentially updated language
+        !hasShownPartialResult,
+        hasShownPartialResult,
+        options.run
+    );
 
-        if (this._themeChangeListener) {
-            this._themeChangeListener.dispose();
+    if (token.isCancellationRequested) {
+        vscode.window.showInformationMessage(
+            `Search cancelled. Showing ${title.toLowerCase()} from ${countReferenceLeaves(groupedReferences)} of ${locations.length} locations.`
+        );
+        return;
+    }
+    // History entries are made from the active tab, so a run in a tab left meanwhile isn't added
+    if (groupedReferences.length > 0 && referencesViewProvider.isShowingRun(options.run)) {
+        if (options.addToHistory) {
+            referencesViewProvider.addCurrentSearchToHistory();
         }
-        this._themeChangeListener = vscode.window.onDidChangeActiveColorTheme(
-            (theme) => {
-                if (this._view && this._view.visible) {
-                    const newTheme = theme.kind === vscode.ColorThemeKind.Dark ? "vs-dark" : "vs";
-                    if (this._currentMonacoTheme !== newTheme) {
-                        this._currentMonacoTheme = newTheme;
-                        this._view.webview.postMessage({
-                            command: "updateMonacoTheme",
-                            payload: { theme: this._currentMonacoTheme },
-                        });
-                    }
-                }
+        await revealReferencesPanel();
+    }
+}
+
+async function findLocations(
+    kind: LocationSearchKind,
+    origin: SearchOrigin,
+    token?: vscode.CancellationToken
+): Promise<vscode.Location[]> {
+    const { uri: documentUri, position } = origin;
+    const providerCommand = LOCATION_SEARCHES[kind].providerCommand;
+    if (!providerCommand) {
+        return origin.symbolName ? findTextOccurrences(origin.symbolName, token) : [];
+    }
+    if (kind === "supertypes" || kind === "subtypes") {
+        const items = await vscode.commands.executeCommand<
+            vscode.TypeHierarchyItem[]
+        >("vscode.prepareTypeHierarchy", documentUri, position);
+        const locations: vscode.Location[] = [];
+        for (const item of items ?? []) {
+            const relatedItems = await vscode.commands.executeCommand<
+                vscode.TypeHierarchyItem[]
+            >(providerCommand, item);
+            for (const related of relatedItems ?? []) {
+                locations.push(new vscode.Location(related.uri, related.selectionRange));
             }
-        );
+        }
+        return locations;
+    }
+
+    const results = await vscode.commands.executeCommand<
+        (vscode.Location | vscode.LocationLink)[]
+    >(providerCommand, documentUri, position);
+    return (results ?? []).map(toLocation);
+}
+
+async function findTextOccurrences(
+    word: string,
+    token?: vscode.CancellationToken
+): Promise<vscode.Location[]> {
+    // Whole word and case sensitive, like the search view with both toggles on
+    const escapedWord = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const wordPattern = new RegExp(`(?<!\\w)${escapedWord}(?!\\w)`, "g");
+    // Without an exclude pattern findFiles applies files.exclude, but search.exclude is up to us
+    const searchExcludes = Object.entries(
+        vscode.workspace.getConfiguration("search").get<{ [glob: string]: unknown }>("exclude", {})
+    )
+        .filter(([, enabled]) => enabled === true) // Skips { when: ... } sibling conditions
+        .map(([glob]) => globToRegExp(glob));
+    const files = await vscode.workspace.findFiles("**/*", undefined, undefined, token);
+    const fileQueue = files.filter((uri) => !isExcludedPath(uri, searchExcludes));
+    // Unsaved changes in open documents are searched instead of the file on disk
+    const openDocuments = new Map(
+        vscode.workspace.textDocuments.map((doc) => [doc.uri.toString(), doc])
+    );
+    const locations: vscode.Location[] = [];
+
+    const searchFiles = async () => {
+        while (
+            fileQueue.length > 0 &&
+            locations.length < TEXT_SEARCH_MAX_RESULTS &&
+            !token?.isCancellationRequested
+        ) {
+            const uri = fileQueue.shift()!;
+            const text = await readSearchableText(uri, openDocuments.get(uri.toString()));
+            if (text === undefined || !text.includes(word)) {
+                continue;
+            }
+            const lines = text.split(/\r\n|\r|\n/);
+            for (let line = 0; line < lines.length; line++) {
+                wordPattern.lastIndex = 0;
+                let match: RegExpExecArray | null;
+                while ((match = wordPattern.exec(lines[line])) !== null) {
+                    locations.push(
+                        new vscode.Location(uri, new vscode.Range(line, match.index, line, match.index + word.length))
+                    );
+                }
+            }
+        }
+    };
+    await Promise.all(
+        Array.from({ length: Math.min(GROUPING_CONCURRENCY, fileQueue.length) }, () => searchFiles())
+    );
+    return locations.slice(0, TEXT_SEARCH_MAX_RESULTS);
+}
+
+function isExcludedPath(uri: vscode.Uri, excludes: RegExp[]): boolean {
+    if (excludes.length === 0) {
+        return false;
+    }
+    // An excluded folder excludes everything below it
+    const segments = vscode.workspace.asRelativePath(uri, false).replace(/\\/g, "/").split("/");
+    for (let i = 1; i <= segments.length; i++) {
+        const partialPath = segments.slice(0, i).join("/");
+        if (excludes.some((re) => re.test(partialPath))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+async function readSearchableText(
+    uri: vscode.Uri,
+    openDocument: vscode.TextDocument | undefined
+): Promise<string | undefined> {
+    if (openDocument) {
+        return openDocument.getText();
+    }
+    try {
+        const stat = await vscode.workspace.fs.stat(uri);
+        if (stat.size > TEXT_SEARCH_MAX_FILE_SIZE) {
+            return undefined;
+        }
+        const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+        return text.includes("\0") ? undefined : text; // Binary file
+    } catch (e) {
+        console.warn(`Could not read ${uri.toString()} for the text search: ${e}`);
+        return undefined;
+    }
+}
+
+// Leaves per document for each result set, so edits don't walk every tree on each keystroke.
+// Leaves are shifted in place; a new result set (new search, regrouping) gets a new index.
+const leavesByUriCache = new WeakMap<TreeNode[], Map<string, ReferenceLeaf[]>>();
+
+function getLeavesInDocument(references: TreeNode[], uri: string): ReferenceLeaf[] {
+    let leavesByUri = leavesByUriCache.get(references);
+    if (!leavesByUri) {
+        leavesByUri = new Map();
+        for (const leaf of collectReferenceLeaves(references)) {
+            if (!leavesByUri.has(leaf.uri)) {
+                leavesByUri.set(leaf.uri, []);
+            }
+            leavesByUri.get(leaf.uri)!.push(leaf);
+        }
+        leavesByUriCache.set(references, leavesByUri);
+    }
+    return leavesByUri.get(uri) ?? [];
+}
+
+function applyDocumentChangeToTab(
+    tab: ResultTabState,
+    event: vscode.TextDocumentChangeEvent
+): boolean {
+    // Shifts references and the search origin in the changed document so clicks still
+    // land on the right line. Returns whether the tab had anything in that document: any
+    // edit there may add or remove references, so the results may be outdated.
+    const changedUri = event.document.uri.toString();
+    const leaves = getLeavesInDocument(tab.references, changedUri);
+    const originAffected = tab.searchOrigin?.uri.toString() === changedUri;
+    if (leaves.length === 0 && !originAffected) {
+        return false;
+    }
+
+    // Changes in one event don't overlap and are ordered so they can be applied in sequence
+    for (const change of event.contentChanges) {
+        for (const leaf of leaves) {
+            const range = leaf.originalLocation.range;
+            if (change.range.end.isBeforeOrEqual(range.start)) {
+                const start = shiftPositionAfterChange(range.start, change);
+                const end = shiftPositionAfterChange(range.end, change);
+                leaf.originalLocation = new vscode.Location(leaf.originalLocation.uri, new vscode.Range(start, end));
+                leaf.line = start.line;
+                leaf.character = start.character;
+                leaf.endLine = end.line;
+                leaf.endCharacter = end.character;
+            } else if (change.range.start.isBefore(range.end)) {
+                leaf.stale = true; // The reference itself was edited
+            }
+        }
+        if (originAffected && tab.searchOrigin && change.range.end.isBeforeOrEqual(tab.searchOrigin.position)) {
+            tab.searchOrigin = {
+                ...tab.searchOrigin,
+                position: shiftPositionAfterChange(tab.searchOrigin.position, change),
+            };
+        }
+    }
+
+    for (const leaf of leaves) {
+        if (leaf.line < event.document.lineCount) {
+            leaf.previewText = event.document.lineAt(leaf.line).text.trim();
+        }
+    }
+    return true;
+}
+
+function shiftLineAfterDocumentChange(
+    line: number,
+    event: vscode.TextDocumentChangeEvent
+): number {
+    for (const change of event.contentChanges) {
+        const lineDelta =
+            change.text.split(/\r\n|\r|\n/).length - 1 -
+            (change.range.end.line - change.range.start.line);
+        if (change.range.end.line < line) {
+            line += lineDelta;
+        } else if (change.range.start.line < line) {
+            line = change.range.start.line; // The line itself was removed
+        }
+    }
+    return line;
+}
+
+function shiftPositionAfterChange(
+    position: vscode.Position,
+    change: vscode.TextDocumentContentChangeEvent
+): vscode.Position {
+    // Only valid for positions at or after the end of the replaced range
+    const insertedLines = change.text.split(/\r\n|\r|\n/);
+    const newEndLine = change.range.start.line + insertedLines.length - 1;
+    const newEndCharacter =
+        insertedLines.length === 1
+            ? change.range.start.character + insertedLines[0].length
+            : insertedLines[insertedLines.length - 1].length;
+    if (position.line === change.range.end.line) {
+        return new vscode.Position(
+            newEndLine,
+            newEndCharacter + position.character - change.range.end.character
+        );
+    }
+    return new vscode.Position(position.line + newEndLine - change.range.end.line, position.character);
+}
+
+function collectReferenceLeaves(nodes: TreeNode[]): ReferenceLeaf[] {
+    const leaves: ReferenceLeaf[] = [];
+    for (const node of nodes) {
+        if (node.type === "leaf") {
+            leaves.push(node);
+        } else {
+            leaves.push(...collectReferenceLeaves(node.children));
+        }
+    }
+    return leaves;
+}
+
+function createEmptyTabState(id: number): ResultTabState {
+    return {
+        id: id,
+        pinned: false,
+        references: [],
+        language: "plaintext",
+        monacoContent: DEFAULT_MONACO_CONTENT,
+        monacoRevealLine: 1,
+        monacoFileUri: "",
+        mode: "references",
+        callHierarchyDirection: "incoming",
+        callHierarchyRoots: [],
+        callHierarchyRootNodes: [],
+        callHierarchyItems: new Map(),
+        searchMode: "references",
+        accessFilter: "all",
+        referenceFilter: { text: "", globs: "", hideTestFiles: false, changedOnly: false, hideReviewed: false },
+        isStale: false,
+        runId: 0,
+    };
+}
+
+function getSearchModeTitle(mode: SearchMode): string {
+    if (mode === "incomingCalls") {
+        return "Incoming Calls";
+    }
+    if (mode === "outgoingCalls") {
+        return "Outgoing Calls";
+    }
+    return LOCATION_SEARCHES[mode].title;
+}
+
+function toLocation(location: vscode.Location | vscode.LocationLink): vscode.Location {
+    if ('targetUri' in location) {
+        return new vscode.Location(
+            location.targetUri,
+            location.targetSelectionRange || location.targetRange
+        );
+    }
+    return location;
+}
+
+// Locations handed in by other extensions: Locations, LocationLinks, or plain { uri, range }
+// objects (e.g. from JSON command arguments) that are rebuilt into Locations. Throws on
+// anything else, before the panel is touched.
+function parseLocationArguments(values: unknown[]): vscode.Location[] {
+    return values.map((value, index) => {
+        if (value instanceof vscode.Location) {
+            return value;
+        }
+        if (isRecord(value)) {
+            const uri = parseUriArgument("targetUri" in value ? value.targetUri : value.uri);
+            const range = "targetUri" in value
+                ? parseRangeArgument(value.targetSelectionRange) ?? parseRangeArgument(value.targetRange)
+                : parseRangeArgument(value.range);
+            if (uri && range) {
+                return new vscode.Location(uri, range);
+            }
+        }
+        throw new Error(
+            `Location ${index} is not a Location, a LocationLink or a { uri, range } object.`
+        );
+    });
+}
+
+function parseUriArgument(value: unknown): vscode.Uri | undefined {
+    if (value instanceof vscode.Uri) {
+        return value;
+    }
+    return typeof value === "string" ? vscode.Uri.parse(value) : undefined;
+}
+
+function parseRangeArgument(value: unknown): vscode.Range | undefined {
+    if (value instanceof vscode.Range) {
+        return value;
+    }
+    if (!isRecord(value)) {
+        return undefined;
+    }
+    const start = parsePositionArgument(value.start);
+    const end = parsePositionArgument(value.end);
+    return start && end ? new vscode.Range(start, end) : undefined;
+}
+
+function parsePositionArgument(value: unknown): vscode.Position | undefined {
+    if (value instanceof vscode.Position) {
+        return value;
+    }
+    if (!isRecord(value)) {
+        return undefined;
+    }
+    const { line, character } = value;
+    return typeof line === "number" && typeof character === "number" && line >= 0 && character >= 0
+        ? new vscode.Position(line, character)
+        : undefined;
+}
+
+async function showCallHierarchyInPanel(
+    direction: CallHierarchyDirection,
+    origin: SearchOrigin | undefined = getActiveEditorOrigin(),
+    options: SearchRunOptions = {}
+) {
+    if (!origin || !referencesViewProvider) {
+        vscode.window.showInformationMessage(
+            "No active editor or view provider not ready."
+        );
+        return;
+    }
+    const { uri: documentUri, position, languageId: codeLanguage } = origin;
+    const run = referencesViewProvider.setSearchContext(
+        direction === "incoming" ? "incomingCalls" : "outgoingCalls",
+        origin,
+        options.reuseActiveTab
+    );
+
+    await vscode.window.withProgress(
+        {
+            location: { viewId: ReferencesViewProvider.viewType },
+            title: "Preparing Call Hierarchy...",
+            cancellable: false,
+        },
+        async () => {
+            try {
+                const items = await vscode.commands.executeCommand<
+                    vscode.CallHierarchyItem[]
+                >("vscode.prepareCallHierarchy", documentUri, position);
+
+                if (!items || items.length === 0) {
+                    vscode.window.showInformationMessage(
+                        "No call hierarchy found."
+                    );
+                    referencesViewProvider?.restoreSearchContext(run);
+                    return;
+                }
+
+                referencesViewProvider?.updateCallHierarchyData(
+                    items,
+                    direction,
+                    codeLanguage,
+                    run
+                );
+                if (!referencesViewProvider?.isShowingRun(run)) {
+                    return;
+                }
+                if (options.addToHistory !== false) {
+                    referencesViewProvider.addCurrentSearchToHistory();
+                }
+                await revealReferencesPanel();
+            } catch (error) {
+                console.error("Error in 'showCallHierarchyInPanel':", error);
+                vscode.window.showErrorMessage(
+                    "Failed to prepare call hierarchy."
+                );
+                referencesViewProvider?.restoreSearchContext(run);
+            }
+        }
+    );
+}
+
+class ReferencesViewProvider implements vscode.WebviewViewProvider {
+    public static readonly viewType = "referencesContextView.mainView";
+    private _view?: vscode.WebviewView;
+    private _currentReferences: TreeNode[] = [];
+    private _currentLanguage: string = "plaintext"; // Language for Monaco editor
+    private _currentMonacoContent: string = DEFAULT_MONACO_CONTENT;
+    private _currentMonacoRevealLine: number = 1;
+    private _currentMonacoFileUri: string = "";
+    private _currentMonacoTheme: string = "vs"; // Monaco base theme; colors are layered on in the webview
+    private _previewTheme?: PreviewTheme;
+    private _themeChangeListener?: vscode.Disposable;
+    private _mode: PanelMode = "references";
+    private _callHierarchyDirection: CallHierarchyDirection = "incoming";
+    private _callHierarchyRoots: vscode.CallHierarchyItem[] = [];
+    private _callHierarchyRootNodes: CallHierarchyNode[] = [];
+    // Items handed to the webview by id; the provide*Calls commands need the original objects
+    private _callHierarchyItems: Map<string, vscode.CallHierarchyItem> = new Map();
+    private _nextCallHierarchyId = 0;
+    private _searchMode: SearchMode = "references";
+    private _searchOrigin?: SearchOrigin; // Where the last search was started, so the mode switcher can re-run it
+    private _locationSetTitle?: string; // Title of locations passed in through the API or command arguments
+    private _accessFilter: AccessFilter = "all";
+    private _referenceFilter: ReferenceFilter = { text: "", globs: "", hideTestFiles: false, changedOnly: false, hideReviewed: false };
+    private _referenceGrouping: ReferenceGrouping; // Shared by all tabs, remembered per workspace
+    private _selectedLeafId?: string; // Leaf last selected in the panel, for next/previous reference
+    private _diffScope?: DiffScope; // Shared by all tabs
+    private _lastSentReferences?: TreeNode[]; // Tells the webview whether filters or the results changed
+    private _reviews: { [reviewKey: string]: PersistedReview[] };
+    private _leafReviews = new WeakMap<ReferenceLeaf, PersistedReview>(); // Entry each leaf was matched with
+    private _reviewKeys = new WeakMap<SearchOrigin, Promise<string | undefined>>(); // Resolved once per search
+    private _snapshots: ResultSnapshot[];
+
+    private _history: SearchHistoryEntry[] = [];
+    private _historyIndex = -1;
+    private _tabs: ResultTabState[] = [];
+    private _activeTabId = 0;
+    private _nextTabId = 1;
+    private _nextSearchRunId = 1;
+    private _previewLoads = new Map<number, number>(); // Latest preview load per tab id
+    private _nextPreviewLoadId = 0;
+    private _isStale = false; // Active tab's results may be outdated by edits
+    private _documentChangeRefreshTimer?: NodeJS.Timeout;
+
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _workspaceState: vscode.Memento
+    ) {
+        this._referenceGrouping =
+            this._workspaceState.get<ReferenceGrouping>(REFERENCE_GROUPING_STATE_KEY) ??
+            getPanelSettings().defaultGrouping;
+        this._restoreHistory();
+        this._reviews = this._workspaceState.get<{ [reviewKey: string]: PersistedReview[] }>(REVIEW_STATE_KEY, {});
+        this._snapshots = this._workspaceState.get<ResultSnapshot[]>(SNAPSHOT_STATE_KEY, []);
+        this._tabs.push(createEmptyTabState(0));
+    }
+
+    public resolveWebviewView(
+        webviewView: vscode.WebviewView,
+        _context: vscode.WebviewViewResolveContext,
+        _token: vscode.CancellationToken
+    ) {
+        this._view = webviewView;
+
+        webviewView.webview.options = {
+            enableScripts: true,
+            localResourceRoots: [
+                vscode.Uri.joinPath(this._extensionUri, "media"),
+                vscode.Uri.joinPath(this._extensionUri, "media", "monaco-vs"),
+            ],
+        };
+
+        this._updateHtmlForView();
+
+        webviewView.webview.onDidReceiveMessage(async (message) => {
+            switch (message.command) {
+                case "getContextMonaco":
+                    if (message.payload.leafId !== undefined) {
+                        this._selectedLeafId = message.payload.leafId;
+                    }
+                    const refUriStr = message.payload.uri;
+                    const refUri = vscode.Uri.parse(refUriStr);
+                    const refLine0Indexed = message.payload.line;
+                    // The language for Monaco should ideally be determined from the file itself,
+                    // not just the language of the file where "find references" was initiated.
+                    let monacoLanguage = this._currentLanguage; // Fallback
+                    let monacoVersion: number | undefined;
+                    try {
+                        const doc = await vscode.workspace.openTextDocument(refUri);
+                        monacoLanguage = doc.languageId;
+                        monacoVersion = doc.version;
+                    } catch (e) {
+                        console.warn(`Could not determine language for ${refUriStr}, falling back to ${this._currentLanguage}`);
+                    }
+                    
+                    this._currentMonacoTheme = getMonacoBaseTheme(vscode.window.activeColorTheme.kind);
+                    this._currentMonacoFileUri = refUriStr; 
+
+                    try {
+                        const fullFileContent = await getFullFileContent(refUri);
+                        this._currentMonacoContent = fullFileContent;
+                        this._currentMonacoRevealLine = refLine0Indexed + 1; 
+
+                        this._view?.webview.postMessage({
+                            command: "updateMonacoContent",
+                            payload: {
+                                content: this._currentMonacoContent,
+                                language: monacoLanguage, // Use determined language
+                                revealLine: this._currentMonacoRevealLine,
+                                theme: this._currentMonacoTheme,
+                                fileUri: this._currentMonacoFileUri, 
+                                version: monacoVersion,
+                            },
+                        });
+                        this._sendSemanticTokensToWebview();
+                    } catch (e) {
+                        this._currentMonacoContent = `// Error loading content for ${path.basename(refUri.fsPath)}\n// ${e instanceof Error ? e.message : String(e)}`;
+                        this._currentMonacoRevealLine = 1;
+                        this._view?.webview.postMessage({
+                            command: "updateMonacoContent",
+                            payload: {
+                                content: this._currentMonacoContent,
+                                language: "plaintext", // Fallback on error
+                                revealLine: this._currentMonacoRevealLine,
+                                theme: this._currentMonacoTheme,
+                                fileUri: this._currentMonacoFileUri, 
+                            },
+                        });
+                    }
+                    return;
+
+                case "explicitNavigateTo": 
+                    const navUri = vscode.Uri.parse(message.payload.uri);
+                    const navRange = new vscode.Range(
+                        new vscode.Position(message.payload.line, message.payload.character),
+                        new vscode.Position(message.payload.line, message.payload.character)
+                    );
+                    this.navigateToLocation(navUri, navRange);
+                    return;
+
+                case "monacoAction": 
+                    const { actionType, uri: monacoFileUriStr, position: monacoPosition } = message.payload;
+                    const monacoFileUriFromAction = vscode.Uri.parse(monacoFileUriStr); // Renamed to avoid conflict
+                    const vscPosition = new vscode.Position(monacoPosition.lineNumber -1, monacoPosition.column -1); 
+
+                    if (actionType === "goToDefinition") {
+                        const definitions: vscode.LocationLink[] | vscode.Location[] | undefined =
+                            await vscode.commands.executeCommand<vscode.LocationLink[] | vscode.Location[]>(
+                                "vscode.executeDefinitionProvider",
+                                monacoFileUriFromAction,
+                                vscPosition
+                            );
+                        if (definitions && definitions.length > 0) {
+                            const firstDef = toLocation(definitions[0]);
+                            this.navigateToLocation(firstDef.uri, firstDef.range);
+                        } else {
+                            vscode.window.showInformationMessage("No definition found.");
+                        }
+                    } else if (actionType === "peekDefinition") {
+                         vscode.commands.executeCommand(
+                            "editor.action.peekDefinition",
+                            monacoFileUriFromAction,
+                            vscPosition
+                        );
+                    } else if (actionType === "findReferences") {
+                        // Searching from the preview replaces the results; history leads back
+                        let previewDocument: vscode.TextDocument;
+                        try {
+                            previewDocument = await vscode.workspace.openTextDocument(monacoFileUriFromAction);
+                        } catch (e) {
+                            vscode.window.showErrorMessage(
+                                `Could not open ${path.basename(monacoFileUriFromAction.fsPath)} to find references. ${e}`
+                            );
+                            return;
+                        }
+                        await showLocationsInPanel("references", createSearchOrigin(previewDocument, vscPosition));
+                    }
+                    return;
+
+                case "provideLanguageFeature":
+                    let featureResult: unknown = null;
+                    try {
+                        featureResult = await this._provideLanguageFeature(
+                            message.payload.feature,
+                            vscode.Uri.parse(message.payload.uri),
+                            new vscode.Position(message.payload.position.lineNumber - 1, message.payload.position.column - 1)
+                        );
+                    } catch (e) {
+                        vscode.window.showErrorMessage(`Could not get ${message.payload?.feature ?? "language feature"} for the preview. ${e}`);
+                    }
+                    // Answered even on failure so the preview doesn't wait for it
+                    this._view?.webview.postMessage({
+                        command: "languageFeatureResult",
+                        payload: { requestId: message.payload?.requestId, result: featureResult },
+                    });
+                    return;
+
+                case "resolveCallHierarchyChildren":
+                    const callNodeId: string = message.payload.id;
+                    const callChildren = await this._resolveCallHierarchyChildren(callNodeId);
+                    this._view?.webview.postMessage({
+                        command: "callHierarchyChildren",
+                        payload: { parentId: callNodeId, children: callChildren },
+                    });
+                    return;
+
+                case "switchSearchMode":
+                    const newSearchMode: SearchMode = message.payload.mode;
+                    if (!this._searchOrigin) {
+                        vscode.window.showInformationMessage(
+                            "Run a search from the editor first."
+                        );
+                        this.sendCurrentDataToWebview();
+                        return;
+                    }
+                    if (newSearchMode === "incomingCalls" || newSearchMode === "outgoingCalls") {
+                        await showCallHierarchyInPanel(
+                            newSearchMode === "incomingCalls" ? "incoming" : "outgoing",
+                            this._searchOrigin
+                        );
+                    } else {
+                        await showLocationsInPanel(newSearchMode, this._searchOrigin);
+                    }
+                    return;
+
+                case "setAccessFilter":
+                    this._accessFilter = message.payload.filter;
+                    this.sendCurrentDataToWebview({ preserveUiState: true }); // Same results, fewer or more shown
+                    return;
+
+                case "setReferenceFilter":
+                    this._referenceFilter = message.payload.filter;
+                    this.sendCurrentDataToWebview({ preserveUiState: true });
+                    return;
+
+                case "chooseDiffScope":
+                    await this.chooseDiffScope();
+                    return;
+
+                case "setReferenceGrouping":
+                    this._setReferenceGrouping(message.payload.grouping);
+                    return;
+
+                case "navigateHistory":
+                    await this._goToHistoryEntry(
+                        message.payload.index ?? this._historyIndex + message.payload.delta
+                    );
+                    return;
+
+                case "clearHistory":
+                    this._history = [];
+                    this._historyIndex = -1;
+                    this._persistHistory();
+                    this._sendHistoryToWebview();
+                    return;
+
+                case "togglePinActiveTab":
+                    const activeTab = this._getActiveTab();
+                    activeTab.pinned = !activeTab.pinned;
+                    this._sendTabsToWebview();
+                    return;
+
+                case "activateTab":
+                    this._activateTab(message.payload.id);
+                    return;
+
+                case "closeTab":
+                    this._closeTab(message.payload.id);
+                    return;
+
+                case "rerunSearch":
+                    await this._rerunSearch();
+                    return;
+
+                case "exportResults":
+                    await this.exportResults();
+                    return;
+
+                case "manageSnapshots":
+                    await this.manageSnapshots();
+                    return;
+
+                case "replaceInReferences":
+                    await this._replaceInReferences(message.payload.leafIds);
+                    return;
+
+                case "setReviewed":
+                    await this._updateReviews(message.payload.leafIds, { reviewed: message.payload.reviewed });
+                    return;
+
+                case "editReviewNote":
+                    await this._editReviewNote(message.payload.leafId);
+                    return;
+
+                case "applyPreviewEdit":
+                    await this._applyPreviewEdit(message.payload);
+                    return;
+
+                case "savePreviewDocument":
+                    const previewDoc = vscode.workspace.textDocuments.find(
+                        (doc) => doc.uri.toString() === message.payload.uri
+                    );
+                    await previewDoc?.save();
+                    return;
+
+                case "toggleCallHierarchyDirection":
+                    if (this._mode === "callHierarchy") {
+                        this._searchMode = this._callHierarchyDirection === "incoming" ? "outgoingCalls" : "incomingCalls";
+                        this.updateCallHierarchyData(
+                            this._callHierarchyRoots,
+                            this._callHierarchyDirection === "incoming" ? "outgoing" : "incoming",
+                            this._currentLanguage
+                        );
+                    }
+                    return;
+
+                case "webviewReady":
+                    this._sendSettingsToWebview();
+                    await this._sendThemeToWebview();
+                    this._sendTabsToWebview();
+                    this.sendCurrentDataToWebview();
+                    this._sendHistoryToWebview();
+                    return;
+            }
+        });
+
+        if (this._themeChangeListener) {
+            this._themeChangeListener.dispose();
+        }
+        this._themeChangeListener = vscode.Disposable.from(
+            vscode.window.onDidChangeActiveColorTheme(() => this._sendThemeToWebview()),
+            vscode.workspace.onDidChangeConfiguration((event) => {
+                if (
+                    event.affectsConfiguration("editor.tokenColorCustomizations") ||
+                    event.affectsConfiguration("editor.semanticTokenColorCustomizations") ||
+                    event.affectsConfiguration("editor.semanticHighlighting")
+                ) {
+                    this._sendThemeToWebview();
+                }
+            })
+        );
 
         webviewView.onDidDispose(() => {
             if (this._themeChangeListener) {
                 this._themeChangeListener.dispose();
                 this._themeChangeListener = undefined;
             }
-            if (this._view === webviewView) {
-                this._view = undefined;
+            if (this._view === webviewView) {
+                this._view = undefined;
+            }
+        });
+        this._currentMonacoTheme = getMonacoBaseTheme(vscode.window.activeColorTheme.kind);
+    }
+
+    // Answers Monaco's hover and highlight providers in the preview from VS Code's language features
+    private async _provideLanguageFeature(
+        feature: "hover" | "documentHighlights",
+        uri: vscode.Uri,
+        position: vscode.Position
+    ): Promise<unknown> {
+        try {
+            if (feature === "hover") {
+                const hovers = await vscode.commands.executeCommand<vscode.Hover[]>(
+                    "vscode.executeHoverProvider",
+                    uri,
+                    position
+                );
+                const contents = (hovers ?? [])
+                    .flatMap((hover) => hover.contents)
+                    .map((content) => ({ value: hoverContentToMarkdown(content) }))
+                    .filter((content) => content.value.trim().length > 0);
+                if (contents.length === 0) {
+                    return null;
+                }
+                const range = hovers.find((hover) => hover.range)?.range;
+                return { contents, range: range ? vscodeRangeToMonaco(range) : undefined };
+            }
+            const highlights = await vscode.commands.executeCommand<vscode.DocumentHighlight[]>(
+                "vscode.executeDocumentHighlights",
+                uri,
+                position
+            );
+            // DocumentHighlightKind values are the same in Monaco
+            return (highlights ?? []).map((highlight) => ({
+                range: vscodeRangeToMonaco(highlight.range),
+                kind: highlight.kind ?? vscode.DocumentHighlightKind.Text,
+            }));
+        } catch (e) {
+            console.warn(`Could not get ${feature} for ${uri.toString()}: ${e}`);
+            return null;
+        }
+    }
+
+    // Like F4 in the search view: moves through the panel's references in tree order, wrapping around
+    public async goToAdjacentReference(delta: 1 | -1) {
+        if (this._mode !== "references") {
+            return;
+        }
+        const leaves = collectReferenceLeaves(this._getFilteredReferences());
+        if (leaves.length === 0) {
+            return;
+        }
+        const currentIndex = leaves.findIndex((leaf) => leaf.id === this._selectedLeafId);
+        const nextIndex =
+            currentIndex < 0
+                ? (delta > 0 ? 0 : leaves.length - 1)
+                : (currentIndex + delta + leaves.length) % leaves.length;
+        const leaf = leaves[nextIndex];
+        this._selectedLeafId = leaf.id;
+        this._view?.webview.postMessage({
+            command: "revealReference",
+            payload: { key: `leaf:${leaf.id}` },
+        });
+        await this.navigateToLocation(leaf.originalLocation.uri, leaf.originalLocation.range);
+    }
+
+    private async navigateToLocation(uri: vscode.Uri, range: vscode.Range) {
+        try {
+            const doc = await vscode.workspace.openTextDocument(uri);
+            await vscode.window.showTextDocument(doc, {
+                selection: range,
+                viewColumn: vscode.ViewColumn.Active,
+                preserveFocus: false,
+            });
+        } catch (e) {
+            vscode.window.showErrorMessage(`Could not open file: ${uri.fsPath}. ${e}`);
+        }
+    }
+
+    public setSearchContext(mode: SearchMode, origin: SearchOrigin, reuseActiveTab: boolean = false): SearchRun {
+        const run = this._startSearchRun(reuseActiveTab);
+        this._searchMode = mode;
+        this._searchOrigin = origin;
+        this._locationSetTitle = undefined;
+        this._sendTabsToWebview();
+        return run;
+    }
+
+    public setLocationSetContext(title: string): SearchRun {
+        // Passed-in locations have no origin, so they can't be re-run or added to the history
+        const run = this._startSearchRun(false);
+        this._searchMode = "references";
+        this._searchOrigin = undefined;
+        this._locationSetTitle = title;
+        this._sendTabsToWebview();
+        return run;
+    }
+
+    public restoreSearchContext(run: SearchRun) {
+        // The search found nothing: the tab goes back to the results it still shows
+        if (!this.isCurrentRun(run)) {
+            return;
+        }
+        const wasActive = run.tabId === this._activeTabId;
+        if (run.createdTab) {
+            this._closeTab(run.tabId);
+        } else {
+            this._updateTabState(run.tabId, (tab) => {
+                tab.searchMode = run.previousContext.mode;
+                tab.searchOrigin = run.previousContext.origin;
+                tab.locationSetTitle = run.previousContext.locationSetTitle;
+            });
+            this._sendTabsToWebview();
+        }
+        if (wasActive && this._tabs.some((tab) => tab.id === run.previousTabId)) {
+            this._activateTab(run.previousTabId);
+        }
+    }
+
+    public setRunSearchMode(run: SearchRun, mode: SearchMode) {
+        if (!this.isCurrentRun(run)) {
+            return;
+        }
+        this._updateTabState(run.tabId, (tab) => {
+            tab.searchMode = mode;
+        });
+        this._sendTabsToWebview();
+    }
+
+    // Whether the run's tab is still open and no newer search has started in it
+    public isCurrentRun(run: SearchRun): boolean {
+        return this._tabs.some((tab) => tab.id === run.tabId && tab.runId === run.id);
+    }
+
+    public isShowingRun(run: SearchRun): boolean {
+        return this.isCurrentRun(run) && run.tabId === this._activeTabId;
+    }
+
+    private _startSearchRun(reuseActiveTab: boolean): SearchRun {
+        const previousTabId = this._activeTabId;
+        const createdTab = this._useUnpinnedTab(reuseActiveTab);
+        const run: SearchRun = {
+            id: this._nextSearchRunId++,
+            tabId: this._activeTabId,
+            createdTab: createdTab,
+            previousTabId: previousTabId,
+            previousContext: this._getTabSearchContext(this._activeTabId)!,
+        };
+        this._getActiveTab().runId = run.id;
+        return run;
+    }
+
+    private _getTabSearchContext(tabId: number): SearchContext | undefined {
+        if (tabId === this._activeTabId) {
+            return { mode: this._searchMode, origin: this._searchOrigin, locationSetTitle: this._locationSetTitle };
+        }
+        const tab = this._tabs.find((t) => t.id === tabId);
+        return tab && { mode: tab.searchMode, origin: tab.searchOrigin, locationSetTitle: tab.locationSetTitle };
+    }
+
+    private _useUnpinnedTab(reuseActiveTab: boolean): boolean {
+        // A pinned tab keeps its results; the new search goes to an unpinned tab instead.
+        // Returns whether a tab had to be opened for it.
+        if (this._getActiveTab().pinned && !reuseActiveTab) {
+            const unpinnedTab = this._tabs.find((tab) => !tab.pinned);
+            if (unpinnedTab) {
+                this._activateTab(unpinnedTab.id);
+            } else {
+                const newTab = createEmptyTabState(this._nextTabId++);
+                newTab.accessFilter = this._accessFilter;
+                newTab.referenceFilter = this._referenceFilter;
+                this._tabs.push(newTab);
+                this._activateTab(newTab.id);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private _updateTabState(tabId: number, update: (tab: ResultTabState) => void) {
+        // The active tab lives in the provider's fields, so it goes through its snapshot
+        const tab = this._tabs.find((t) => t.id === tabId);
+        if (!tab) {
+            return;
+        }
+        const isActive = tabId === this._activeTabId;
+        if (isActive) {
+            this._saveActiveTab();
+        }
+        update(tab);
+        if (isActive) {
+            this._loadTab(tab);
+        }
+    }
+
+    public handleDocumentChange(event: vscode.TextDocumentChangeEvent) {
+        if (event.contentChanges.length === 0) {
+            return;
+        }
+        const changedUri = event.document.uri.toString();
+        this._saveActiveTab();
+        let anyTabAffected = false;
+        let activeTabAffected = false;
+        let activePreviewAffected = false;
+        for (const tab of this._tabs) {
+            if (tab.monacoFileUri === changedUri) {
+                // The preview mirrors the live buffer
+                tab.monacoContent = event.document.getText();
+                tab.monacoRevealLine = shiftLineAfterDocumentChange(tab.monacoRevealLine - 1, event) + 1;
+                anyTabAffected = true;
+                activePreviewAffected = activePreviewAffected || tab.id === this._activeTabId;
+            }
+            if (applyDocumentChangeToTab(tab, event)) {
+                tab.isStale = true;
+                anyTabAffected = true;
+                activeTabAffected = activeTabAffected || tab.id === this._activeTabId;
+            }
+        }
+        if (!anyTabAffected) {
+            return;
+        }
+        this._loadTab(this._getActiveTab());
+
+        // Typing produces a burst of events; only re-render once it settles
+        if (this._documentChangeRefreshTimer) {
+            clearTimeout(this._documentChangeRefreshTimer);
+        }
+        this._documentChangeRefreshTimer = setTimeout(() => {
+            this._documentChangeRefreshTimer = undefined;
+            this._sendTabsToWebview();
+            if (activeTabAffected) {
+                this.sendCurrentDataToWebview({ preserveUiState: true });
+            }
+            if (activePreviewAffected && this._view?.visible) {
+                this._sendMonacoContentToWebview(true);
+            }
+        }, 300);
+    }
+
+    private async _applyPreviewEdit(payload: {
+        uri: string;
+        baseVersion?: number;
+        changeBatches: { range: MonacoRange; text: string }[][];
+    }) {
+        const uri = vscode.Uri.parse(payload.uri);
+        let doc: vscode.TextDocument;
+        try {
+            doc = await vscode.workspace.openTextDocument(uri);
+        } catch (e) {
+            vscode.window.showErrorMessage(`Could not open ${path.basename(uri.fsPath)} for editing. ${e}`);
+            return;
+        }
+
+        const rejectEdit = (reason: string) => {
+            vscode.window.showWarningMessage(reason);
+            // Resync the preview with the real document
+            this._view?.webview.postMessage({
+                command: "previewEditResult",
+                payload: { uri: payload.uri, applied: false, version: doc.version, content: doc.getText() },
+            });
+        };
+
+        // The preview was edited against a specific document version; anything else means
+        // someone else changed the document in the meantime. Previews read from disk carry no
+        // version, so compare the text they were based on instead
+        const isOutdated =
+            payload.baseVersion !== undefined
+                ? doc.version !== payload.baseVersion
+                : payload.uri !== this._currentMonacoFileUri || doc.getText() !== this._currentMonacoContent;
+        if (isOutdated) {
+            rejectEdit(`${path.basename(uri.fsPath)} was changed outside the preview. The preview edit was not applied.`);
+            return;
+        }
+
+        // Each batch is one Monaco change event, relative to the document after the previous batch
+        for (const changes of payload.changeBatches) {
+            const edit = new vscode.WorkspaceEdit();
+            for (const change of changes) {
+                edit.replace(uri, monacoRangeToVscode(change.range), change.text);
+            }
+            if (!(await vscode.workspace.applyEdit(edit))) {
+                rejectEdit(`Could not apply the preview edit to ${path.basename(uri.fsPath)}.`);
+                return;
+            }
+        }
+        this._view?.webview.postMessage({
+            command: "previewEditResult",
+            payload: { uri: payload.uri, applied: true, version: doc.version },
+        });
+    }
+
+    private async _rerunSearch() {
+        if (!this._searchOrigin) {
+            return;
+        }
+        const options: SearchRunOptions = { addToHistory: false, reuseActiveTab: true };
+        if (this._searchMode === "incomingCalls" || this._searchMode === "outgoingCalls") {
+            await showCallHierarchyInPanel(
+                this._searchMode === "incomingCalls" ? "incoming" : "outgoing",
+                this._searchOrigin,
+                options
+            );
+        } else {
+            await showLocationsInPanel(this._searchMode, this._searchOrigin, options);
+        }
+    }
+
+    private _getActiveTab(): ResultTabState {
+        return this._tabs.find((tab) => tab.id === this._activeTabId)!;
+    }
+
+    private _saveActiveTab() {
+        Object.assign(this._getActiveTab(), {
+            references: this._currentReferences,
+            language: this._currentLanguage,
+            monacoContent: this._currentMonacoContent,
+            monacoRevealLine: this._currentMonacoRevealLine,
+            monacoFileUri: this._currentMonacoFileUri,
+            mode: this._mode,
+            callHierarchyDirection: this._callHierarchyDirection,
+            callHierarchyRoots: this._callHierarchyRoots,
+            callHierarchyRootNodes: this._callHierarchyRootNodes,
+            callHierarchyItems: this._callHierarchyItems,
+            searchMode: this._searchMode,
+            searchOrigin: this._searchOrigin,
+            locationSetTitle: this._locationSetTitle,
+            accessFilter: this._accessFilter,
+            referenceFilter: this._referenceFilter,
+            isStale: this._isStale,
+        });
+    }
+
+    private _loadTab(tab: ResultTabState) {
+        this._activeTabId = tab.id;
+        this._currentReferences = tab.references;
+        this._currentLanguage = tab.language;
+        this._currentMonacoContent = tab.monacoContent;
+        this._currentMonacoRevealLine = tab.monacoRevealLine;
+        this._currentMonacoFileUri = tab.monacoFileUri;
+        this._mode = tab.mode;
+        this._callHierarchyDirection = tab.callHierarchyDirection;
+        this._callHierarchyRoots = tab.callHierarchyRoots;
+        this._callHierarchyRootNodes = tab.callHierarchyRootNodes;
+        this._callHierarchyItems = tab.callHierarchyItems;
+        this._searchMode = tab.searchMode;
+        this._searchOrigin = tab.searchOrigin;
+        this._locationSetTitle = tab.locationSetTitle;
+        this._accessFilter = tab.accessFilter;
+        this._referenceFilter = tab.referenceFilter;
+        this._isStale = tab.isStale;
+    }
+
+    private _activateTab(id: number) {
+        const tab = this._tabs.find((t) => t.id === id);
+        if (!tab) {
+            return;
+        }
+        if (id !== this._activeTabId) {
+            this._saveActiveTab();
+            this._loadTab(tab);
+        }
+        this._sendTabsToWebview();
+        this.sendCurrentDataToWebview();
+    }
+
+    private _closeTab(id: number) {
+        const index = this._tabs.findIndex((tab) => tab.id === id);
+        if (index < 0) {
+            return;
+        }
+        if (this._tabs.length === 1) {
+            // Closing the last tab just clears it
+            const emptyTab = createEmptyTabState(this._nextTabId++);
+            this._tabs = [emptyTab];
+            this._loadTab(emptyTab);
+        } else {
+            this._tabs.splice(index, 1);
+            if (id === this._activeTabId) {
+                this._loadTab(this._tabs[Math.min(index, this._tabs.length - 1)]);
+            }
+        }
+        this._sendTabsToWebview();
+        this.sendCurrentDataToWebview();
+    }
+
+    private _sendTabsToWebview() {
+        this._view?.webview.postMessage({
+            command: "updateTabs",
+            payload: {
+                activeTabId: this._activeTabId,
+                tabs: this._tabs.map((tab) => {
+                    const isActive = tab.id === this._activeTabId;
+                    const searchMode = isActive ? this._searchMode : tab.searchMode;
+                    const origin = isActive ? this._searchOrigin : tab.searchOrigin;
+                    const locationSetTitle = isActive ? this._locationSetTitle : tab.locationSetTitle;
+                    return {
+                        id: tab.id,
+                        pinned: tab.pinned,
+                        stale: isActive ? this._isStale : tab.isStale,
+                        title: origin
+                            ? `${origin.symbolName ?? path.basename(origin.uri.fsPath)} — ${getSearchModeTitle(searchMode)}`
+                            : locationSetTitle ?? "No Results",
+                    };
+                }),
+            },
+        });
+    }
+
+    public handleConfigurationChange(event: vscode.ConfigurationChangeEvent) {
+        if (!event.affectsConfiguration("referencesContext")) {
+            return;
+        }
+        const symbolKindsChanged = event.affectsConfiguration("referencesContext.groupBySymbolKinds");
+        // The default only applies until a grouping is picked in the panel
+        const groupingChanged =
+            event.affectsConfiguration("referencesContext.defaultGrouping") &&
+            this._workspaceState.get(REFERENCE_GROUPING_STATE_KEY) === undefined;
+        if (groupingChanged) {
+            this._referenceGrouping = getPanelSettings().defaultGrouping;
+        }
+        this._sendSettingsToWebview();
+        if (symbolKindsChanged || groupingChanged) {
+            this._regroupAllResults(symbolKindsChanged ? getGroupingSymbolKinds() : undefined);
+        }
+    }
+
+    private _sendSettingsToWebview() {
+        this._view?.webview.postMessage({
+            command: "updateSettings",
+            payload: getPanelSettings(),
+        });
+    }
+
+    public getReferenceGrouping(): ReferenceGrouping {
+        return this._referenceGrouping;
+    }
+
+    private _setReferenceGrouping(grouping: ReferenceGrouping) {
+        this._referenceGrouping = grouping;
+        this._workspaceState.update(REFERENCE_GROUPING_STATE_KEY, grouping);
+        this._regroupAllResults();
+    }
+
+    // Regroups every result set kept around so switching tabs or history doesn't bring back the
+    // old layout. With symbolKinds, the leaves' symbol paths are narrowed to those kinds first.
+    private _regroupAllResults(symbolKinds?: Set<vscode.SymbolKind>) {
+        const regroup = (references: TreeNode[]) => {
+            const leaves = collectReferenceLeaves(references);
+            if (symbolKinds) {
+                leaves.forEach((leaf) => setLeafSymbolPath(leaf, symbolKinds));
+            }
+            return buildReferenceTree(leaves, this._referenceGrouping);
+        };
+        this._currentReferences = regroup(this._currentReferences);
+        for (const tab of this._tabs) {
+            if (tab.id !== this._activeTabId) {
+                tab.references = regroup(tab.references);
+            }
+        }
+        for (const entry of this._history) {
+            if (entry.references) {
+                entry.references = regroup(entry.references);
+            }
+        }
+        this.sendCurrentDataToWebview();
+    }
+
+    public async restoreReviews(references: TreeNode[], run?: SearchRun) {
+        if (run && !this.isCurrentRun(run)) {
+            return;
+        }
+        const reviewKey = await this._getReviewKey(this._getTabSearchContext(run?.tabId ?? this._activeTabId));
+        const reviews = reviewKey ? this._reviews[reviewKey] ?? [] : [];
+        const leaves = collectReferenceLeaves(references);
+        const matches = matchReviewsToLeaves(reviews, leaves);
+        for (const leaf of leaves) {
+            const review = matches.get(leaf);
+            leaf.reviewed = review?.reviewed || undefined;
+            leaf.reviewNote = review?.note;
+            if (review) {
+                this._leafReviews.set(leaf, review);
+            }
+        }
+    }
+
+    private _getReviewKey(context: SearchContext | undefined): Promise<string | undefined> {
+        if (context?.locationSetTitle) {
+            return Promise.resolve(`set:${context.locationSetTitle}`);
+        }
+        if (!context?.origin?.symbolName) {
+            return Promise.resolve(undefined);
+        }
+        let reviewKey = this._reviewKeys.get(context.origin);
+        if (!reviewKey) {
+            reviewKey = getSymbolReviewKey(context.mode, context.origin);
+            this._reviewKeys.set(context.origin, reviewKey);
+        }
+        return reviewKey;
+    }
+
+    private async _updateReviews(leafIds: string[], update: { reviewed?: boolean; note?: string }) {
+        if (this._mode !== "references") {
+            return;
+        }
+        const ids = new Set(leafIds);
+        const leaves = collectReferenceLeaves(this._currentReferences).filter((leaf) => ids.has(leaf.id));
+        const reviewKey = await this._getReviewKey(this._getTabSearchContext(this._activeTabId));
+        let reviews = reviewKey ? this._reviews[reviewKey] ?? [] : [];
+        for (const leaf of leaves) {
+            if (update.reviewed !== undefined) {
+                leaf.reviewed = update.reviewed || undefined;
+            }
+            if (update.note !== undefined) {
+                leaf.reviewNote = update.note || undefined;
+            }
+            // The entry is replaced so it records where the reference is now
+            const previous = this._leafReviews.get(leaf);
+            if (previous) {
+                reviews = reviews.filter((review) => review !== previous);
+                this._leafReviews.delete(leaf);
+            }
+            if (leaf.reviewed || leaf.reviewNote) {
+                const review: PersistedReview = {
+                    uri: leaf.uri,
+                    line: leaf.line,
+                    character: leaf.character,
+                    lineText: leaf.previewText,
+                    reviewed: leaf.reviewed === true,
+                    note: leaf.reviewNote,
+                };
+                reviews.push(review);
+                this._leafReviews.set(leaf, review);
+            }
+        }
+        if (reviewKey) {
+            if (reviews.length > 0) {
+                this._reviews[reviewKey] = reviews;
+            } else {
+                delete this._reviews[reviewKey];
+            }
+            this._workspaceState.update(REVIEW_STATE_KEY, this._reviews);
+        }
+        this.sendCurrentDataToWebview({ preserveUiState: true });
+    }
+
+    private async _editReviewNote(leafId: string) {
+        const leaf = collectReferenceLeaves(this._currentReferences).find((l) => l.id === leafId);
+        if (!leaf) {
+            return;
+        }
+        const note = await vscode.window.showInputBox({
+            title: `Review Note for ${leaf.fileName}:${leaf.line + 1}`,
+            prompt: "Leave empty to remove the note.",
+            value: leaf.reviewNote ?? "",
+        });
+        if (note === undefined) {
+            return;
+        }
+        await this._updateReviews([leafId], { note: note.trim() });
+    }
+
+    public async markChangedReferences(references: TreeNode[]) {
+        if (this._diffScope) {
+            await markChangedReferenceLeaves(collectReferenceLeaves(references), this._diffScope.ref);
+        }
+    }
+
+    public async chooseDiffScope() {
+        const git = await getGitApi();
+        if (!git) {
+            vscode.window.showInformationMessage("The built-in Git extension is not available.");
+            return;
+        }
+        const scopeUri = collectReferenceLeaves(this._currentReferences)[0]?.originalLocation.uri ??
+            this._searchOrigin?.uri;
+        const repository = (scopeUri && git.getRepository(scopeUri)) || git.repositories[0];
+        if (!repository) {
+            vscode.window.showInformationMessage("No Git repository found for the results.");
+            return;
+        }
+
+        type DiffScopeItem = vscode.QuickPickItem & { scope?: DiffScope; enterRef?: boolean };
+        const items: DiffScopeItem[] = [];
+        if (this._diffScope) {
+            items.push({ label: "$(close) Off", description: `Currently: ${this._diffScope.label}` });
+        }
+        items.push(
+            {
+                label: "$(git-commit) Uncommitted Changes",
+                description: "Working tree compared with HEAD",
+                scope: { ref: "HEAD", label: "uncommitted changes" },
+            },
+            { label: "$(edit) Enter a Ref...", enterRef: true }
+        );
+        const refs = repository.state.refs.filter((ref) => ref.name);
+        if (refs.length > 0) {
+            items.push({ label: "Branches and Tags", kind: vscode.QuickPickItemKind.Separator });
+        }
+        for (const ref of refs) {
+            const icon = ref.type === GIT_REF_TYPE_TAG ? "tag" : ref.type === GIT_REF_TYPE_REMOTE_HEAD ? "cloud" : "git-branch";
+            items.push({
+                label: `$(${icon}) ${ref.name}`,
+                description: ref.commit?.slice(0, 8),
+                scope: { ref: ref.name!, label: ref.name! },
+            });
+        }
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: "Mark references on lines changed relative to",
+        });
+        if (!picked) {
+            return;
+        }
+        let scope = picked.scope;
+        if (picked.enterRef) {
+            const ref = (await vscode.window.showInputBox({
+                prompt: "Git ref to compare the working tree with",
+                placeHolder: "e.g. main, origin/main, HEAD~3 or a commit hash",
+            }))?.trim();
+            if (!ref) {
+                return;
+            }
+            scope = { ref, label: ref };
+        }
+        await this._setDiffScope(scope);
+    }
+
+    private async _setDiffScope(scope: DiffScope | undefined) {
+        this._diffScope = scope;
+        const allReferences = [
+            this._currentReferences,
+            ...this._tabs.filter((tab) => tab.id !== this._activeTabId).map((tab) => tab.references),
+        ];
+        if (!scope) {
+            // Nothing is marked any more, so "changed only" would hide everything
+            this._referenceFilter = { ...this._referenceFilter, changedOnly: false };
+            for (const tab of this._tabs) {
+                tab.referenceFilter = { ...tab.referenceFilter, changedOnly: false };
+            }
+        }
+        await vscode.window.withProgress(
+            { location: { viewId: ReferencesViewProvider.viewType } },
+            () => markChangedReferenceLeaves(allReferences.flatMap(collectReferenceLeaves), scope?.ref)
+        );
+        this.sendCurrentDataToWebview({ preserveUiState: true });
+    }
+
+    // Replaces exactly the chosen references. A language-server rename changes every reference
+    // at once; this lets a subset be migrated, reviewed in the refactor preview first.
+    private async _replaceInReferences(leafIds: string[]) {
+        if (this._mode !== "references") {
+            return;
+        }
+        const ids = new Set(leafIds);
+        const leaves = collectReferenceLeaves(this._currentReferences).filter((leaf) => ids.has(leaf.id));
+        // An edit overlapped stale references, so their ranges can't be trusted
+        const replaceableLeaves = leaves.filter((leaf) => !leaf.stale);
+        const skippedCount = leaves.length - replaceableLeaves.length;
+        if (replaceableLeaves.length === 0) {
+            vscode.window.showInformationMessage(
+                leaves.length > 0
+                    ? "The selected references were edited since the search ran. Re-run the search first."
+                    : "Select references to replace first."
+            );
+            return;
+        }
+
+        const firstLocation = replaceableLeaves[0].originalLocation;
+        let currentText = "";
+        try {
+            currentText = (await vscode.workspace.openTextDocument(firstLocation.uri)).getText(firstLocation.range);
+        } catch (e) {
+            console.warn(`Could not read ${firstLocation.uri.toString()}: ${e}`);
+        }
+        const referenceCount = `${replaceableLeaves.length} selected reference${replaceableLeaves.length === 1 ? "" : "s"}`;
+        const newText = await vscode.window.showInputBox({
+            title: `Replace in ${referenceCount}`,
+            prompt: "The edit is shown in the refactor preview before it is applied.",
+            value: currentText,
+        });
+        if (newText === undefined) {
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        const metadata: vscode.WorkspaceEditEntryMetadata = {
+            label: `Replace in ${referenceCount}`,
+            description: currentText ? `"${currentText}" → "${newText}"` : `→ "${newText}"`,
+            needsConfirmation: true, // Routes the edit through the refactor preview
+        };
+        for (const leaf of replaceableLeaves) {
+            edit.replace(leaf.originalLocation.uri, leaf.originalLocation.range, newText, metadata);
+        }
+        const applied = await vscode.workspace.applyEdit(edit, { isRefactoring: true });
+        if (applied) {
+            this._view?.webview.postMessage({ command: "clearCheckedLeaves" });
+        }
+        if (skippedCount > 0) {
+            vscode.window.showInformationMessage(
+                `Skipped ${skippedCount} reference${skippedCount === 1 ? "" : "s"} edited since the search ran.`
+            );
+        }
+    }
+
+    // Exports what the panel currently shows, i.e. with access and text filters applied
+    public async exportResults() {
+        if (this._mode === "callHierarchy") {
+            vscode.window.showInformationMessage("Only reference results can be exported.");
+            return;
+        }
+        const references = this._getFilteredReferences();
+        if (references.length === 0) {
+            vscode.window.showInformationMessage("There are no results to export.");
+            return;
+        }
+
+        const formatPick = await vscode.window.showQuickPick(
+            (Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => ({
+                label: EXPORT_FORMATS[format].label,
+                format: format,
+            })),
+            { placeHolder: "Export format" }
+        );
+        if (!formatPick) {
+            return;
+        }
+        const destinationPick = await vscode.window.showQuickPick(
+            [
+                { label: "$(new-file) New Untitled Document", destination: "untitled" as ExportDestination },
+                { label: "$(copy) Copy to Clipboard", destination: "clipboard" as ExportDestination },
+                { label: "$(save) Save to File...", destination: "file" as ExportDestination },
+            ],
+            { placeHolder: "Export destination" }
+        );
+        if (!destinationPick) {
+            return;
+        }
+
+        const title = this._getResultsTitle();
+        const format = EXPORT_FORMATS[formatPick.format];
+        let content: string;
+        switch (formatPick.format) {
+            case "markdown":
+                content = serializeReferencesAsMarkdown(
+                    references,
+                    title,
+                    countReferenceLeaves(this._currentReferences)
+                );
+                break;
+            case "json":
+                content = serializeReferencesAsJson(references, this._searchMode, this._searchOrigin);
+                break;
+            case "csv":
+                content = serializeReferencesAsCsv(references);
+                break;
+        }
+
+        switch (destinationPick.destination) {
+            case "untitled": {
+                const doc = await vscode.workspace.openTextDocument({
+                    content: content,
+                    language: format.languageId,
+                });
+                await vscode.window.showTextDocument(doc);
+                break;
+            }
+            case "clipboard":
+                await vscode.env.clipboard.writeText(content);
+                vscode.window.showInformationMessage(`Copied ${title} as ${format.label}.`);
+                break;
+            case "file": {
+                const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+                const fileName = `${this._searchOrigin?.symbolName ?? "references"}-${this._searchMode}.${format.extension}`;
+                const targetUri = await vscode.window.showSaveDialog({
+                    defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : undefined,
+                    filters: { [format.label]: [format.extension] },
+                });
+                if (!targetUri) {
+                    return;
+                }
+                try {
+                    await vscode.workspace.fs.writeFile(targetUri, new TextEncoder().encode(content));
+                    vscode.window.showInformationMessage(`Exported ${title} to ${path.basename(targetUri.fsPath)}.`);
+                } catch (e) {
+                    vscode.window.showErrorMessage(
+                        `Could not export results: ${e instanceof Error ? e.message : String(e)}`
+                    );
+                }
+                break;
+            }
+        }
+    }
+
+    private _getResultsTitle(): string {
+        return this._locationSetTitle ?? `${getSearchModeTitle(this._searchMode)}${
+            this._searchOrigin?.symbolName ? ` of ${this._searchOrigin.symbolName}` : ""
+        }`;
+    }
+
+    public async manageSnapshots() {
+        type SnapshotAction = "save" | "compareCurrent" | "compareSnapshots" | "delete";
+        const hasResults = this._mode === "references" && this._currentReferences.length > 0;
+        const items: (vscode.QuickPickItem & { action: SnapshotAction })[] = [];
+        if (hasResults) {
+            items.push({ label: "$(device-camera) Save Snapshot of Current Results...", action: "save" });
+        }
+        if (this._snapshots.length > 0) {
+            if (hasResults) {
+                items.push({ label: "$(diff) Compare Current Results with Snapshot...", action: "compareCurrent" });
+            }
+            if (this._snapshots.length > 1) {
+                items.push({ label: "$(git-compare) Compare Two Snapshots...", action: "compareSnapshots" });
+            }
+            items.push({ label: "$(trash) Delete Snapshot...", action: "delete" });
+        }
+        if (items.length === 0) {
+            vscode.window.showInformationMessage("Run a search first to save a snapshot of its results.");
+            return;
+        }
+        const pick = await vscode.window.showQuickPick(items, { placeHolder: "Result Snapshots" });
+        switch (pick?.action) {
+            case "save":
+                await this._saveSnapshot();
+                break;
+            case "compareCurrent": {
+                const snapshot = await this._pickSnapshot("Snapshot to compare the current results with");
+                if (snapshot) {
+                    const current = collectReferenceLeaves(this._currentReferences).map(createSnapshotReference);
+                    await this._showSnapshotComparison(
+                        compareSnapshotReferences(snapshot.references, current),
+                        `${snapshot.name} → Current`
+                    );
+                }
+                break;
+            }
+            case "compareSnapshots": {
+                const base = await this._pickSnapshot("Older snapshot (its references show as removed)");
+                const other = base && (await this._pickSnapshot("Newer snapshot (its references show as added)", base));
+                if (base && other) {
+                    await this._showSnapshotComparison(
+                        compareSnapshotReferences(base.references, other.references),
+                        `${base.name} → ${other.name}`
+                    );
+                }
+                break;
+            }
+            case "delete": {
+                const snapshot = await this._pickSnapshot("Snapshot to delete");
+                if (snapshot) {
+                    this._snapshots = this._snapshots.filter((s) => s !== snapshot);
+                    this._workspaceState.update(SNAPSHOT_STATE_KEY, this._snapshots);
+                }
+                break;
+            }
+        }
+    }
+
+    private async _saveSnapshot() {
+        const name = await vscode.window.showInputBox({
+            title: "Save Snapshot",
+            prompt: "Snapshots are kept per workspace; one with the same name is replaced.",
+            value: `${this._getResultsTitle()} (${new Date().toLocaleString()})`,
+        });
+        if (!name) {
+            return;
+        }
+        const snapshot: ResultSnapshot = {
+            name: name,
+            createdAt: Date.now(),
+            references: collectReferenceLeaves(this._currentReferences).map(createSnapshotReference),
+        };
+        this._snapshots = [snapshot, ...this._snapshots.filter((s) => s.name !== name)].slice(0, MAX_SNAPSHOTS);
+        this._workspaceState.update(SNAPSHOT_STATE_KEY, this._snapshots);
+        vscode.window.showInformationMessage(`Saved ${snapshot.references.length} references as '${name}'.`);
+    }
+
+    private async _pickSnapshot(placeHolder: string, exclude?: ResultSnapshot): Promise<ResultSnapshot | undefined> {
+        const pick = await vscode.window.showQuickPick(
+            this._snapshots
+                .filter((snapshot) => snapshot !== exclude)
+                .map((snapshot) => ({
+                    label: snapshot.name,
+                    description: `${snapshot.references.length} references`,
+                    detail: new Date(snapshot.createdAt).toLocaleString(),
+                    snapshot: snapshot,
+                })),
+            { placeHolder: placeHolder, matchOnDetail: true }
+        );
+        return pick?.snapshot;
+    }
+
+    private async _showSnapshotComparison(leaves: ReferenceLeaf[], title: string) {
+        const counts = { added: 0, removed: 0, unchanged: 0 };
+        for (const leaf of leaves) {
+            counts[leaf.diffStatus!]++;
+        }
+        const run = this.setLocationSetContext(title);
+        let language = "plaintext";
+        if (leaves.length > 0) {
+            try {
+                language = (await vscode.workspace.openTextDocument(leaves[0].originalLocation.uri)).languageId;
+            } catch (e) {
+                console.warn(`Could not determine language from ${leaves[0].uri}: ${e}`);
+            }
+        }
+        const references = buildReferenceTree(leaves, this._referenceGrouping);
+        await this.markChangedReferences(references);
+        await this.restoreReviews(references, run);
+        this.updateViewData(references, language, true, false, run);
+        await revealReferencesPanel();
+        vscode.window.showInformationMessage(
+            `${title}: ${counts.added} added, ${counts.removed} removed, ${counts.unchanged} unchanged.`
+        );
+    }
+
+    public addCurrentSearchToHistory() {
+        if (!this._searchOrigin) {
+            return;
+        }
+        const entry: SearchHistoryEntry = {
+            mode: this._searchMode,
+            origin: this._searchOrigin,
+            timestamp: Date.now(),
+        };
+        this._cacheResultsInHistoryEntry(entry);
+        // Like browser history, a new search drops everything after the current entry
+        this._history = this._history.slice(0, this._historyIndex + 1);
+        this._history.push(entry);
+        if (this._history.length > MAX_SEARCH_HISTORY_ENTRIES) {
+            this._history = this._history.slice(-MAX_SEARCH_HISTORY_ENTRIES);
+        }
+        this._historyIndex = this._history.length - 1;
+        this._persistHistory();
+        this._sendHistoryToWebview();
+    }
+
+    private _cacheResultsInHistoryEntry(entry: SearchHistoryEntry) {
+        entry.language = this._currentLanguage;
+        if (this._mode === "callHierarchy") {
+            entry.callHierarchyItems = this._callHierarchyRoots;
+            entry.references = undefined;
+        } else {
+            entry.references = this._currentReferences;
+            entry.callHierarchyItems = undefined;
+        }
+    }
+
+    private async _goToHistoryEntry(index: number) {
+        const entry = this._history[index];
+        if (!entry) {
+            return;
+        }
+        this._historyIndex = index;
+        const run = this.setSearchContext(entry.mode, entry.origin);
+        const isCallHierarchy = entry.mode === "incomingCalls" || entry.mode === "outgoingCalls";
+
+        if (isCallHierarchy && entry.callHierarchyItems) {
+            this.updateCallHierarchyData(
+                entry.callHierarchyItems,
+                entry.mode === "incomingCalls" ? "incoming" : "outgoing",
+                entry.language ?? entry.origin.languageId,
+                run
+            );
+        } else if (!isCallHierarchy && entry.references) {
+            this.updateViewData(entry.references, entry.language ?? entry.origin.languageId, true, false, run);
+        } else {
+            // Restored from workspaceState without results: search again from the original position
+            if (isCallHierarchy) {
+                await showCallHierarchyInPanel(
+                    entry.mode === "incomingCalls" ? "incoming" : "outgoing",
+                    entry.origin,
+                    { addToHistory: false }
+                );
+            } else {
+                await showLocationsInPanel(entry.mode as LocationSearchKind, entry.origin, { addToHistory: false });
+            }
+            if (this._history[this._historyIndex] === entry && this._searchMode === entry.mode) {
+                this._cacheResultsInHistoryEntry(entry);
+            }
+        }
+        this._sendHistoryToWebview();
+    }
+
+    private _restoreHistory() {
+        const persisted = this._workspaceState.get<PersistedSearchHistoryEntry[]>(
+            SEARCH_HISTORY_STATE_KEY,
+            []
+        );
+        this._history = persisted.map((entry) => ({
+            mode: entry.mode,
+            origin: {
+                uri: vscode.Uri.parse(entry.uri),
+                position: new vscode.Position(entry.line, entry.character),
+                languageId: entry.languageId,
+                symbolName: entry.symbolName,
+            },
+            timestamp: entry.timestamp,
+        }));
+        this._historyIndex = this._history.length - 1;
+    }
+
+    private _persistHistory() {
+        const persisted: PersistedSearchHistoryEntry[] = this._history.map((entry) => ({
+            mode: entry.mode,
+            uri: entry.origin.uri.toString(),
+            line: entry.origin.position.line,
+            character: entry.origin.position.character,
+            languageId: entry.origin.languageId,
+            symbolName: entry.origin.symbolName,
+            timestamp: entry.timestamp,
+        }));
+        this._workspaceState.update(SEARCH_HISTORY_STATE_KEY, persisted);
+    }
+
+    private _sendHistoryToWebview() {
+        this._view?.webview.postMessage({
+            command: "updateHistory",
+            payload: {
+                currentIndex: this._historyIndex,
+                entries: this._history.map((entry) => ({
+                    symbolName: entry.origin.symbolName ?? "(unknown symbol)",
+                    modeTitle: getSearchModeTitle(entry.mode),
+                    location: `${path.basename(entry.origin.uri.fsPath)}:${entry.origin.position.line + 1}`,
+                    timestamp: entry.timestamp,
+                })),
+            },
+        });
+    }
+
+    public updateViewData(
+        references: TreeNode[],
+        languageForMonaco: string, // Explicitly pass language for Monaco
+        shouldUpdateMonacoWithFirstRef: boolean = false,
+        preserveUiState: boolean = false, // Same search with more results, e.g. while streaming
+        run?: SearchRun // Writes into the run's tab, which may not be the active one any more
+    ) {
+        if (run && !this.isCurrentRun(run)) {
+            return;
+        }
+        const tabId = run?.tabId ?? this._activeTabId;
+        this._updateTabState(tabId, (tab) => {
+            tab.mode = "references";
+            tab.isStale = false;
+            tab.references = references;
+            tab.language = languageForMonaco; // This is the primary language for Monaco context
+        });
+        const isActive = tabId === this._activeTabId;
+
+        if (shouldUpdateMonacoWithFirstRef && getPanelSettings().autoPreviewFirstResult) {
+            let firstLeaf: ReferenceLeaf | undefined;
+            
+            function findFirstLeafRecursive(nodes: (TreeNode | FileChildNode)[]): ReferenceLeaf | undefined {
+                for (const node of nodes) {
+                    if (node.type === "leaf") return node;
+                    const leaf = findFirstLeafRecursive(node.children);
+                    if (leaf) return leaf;
+                }
+                return undefined;
+            }
+            firstLeaf = findFirstLeafRecursive(references);
+
+
+            if (firstLeaf) {
+                this._loadTabPreview(tabId, vscode.Uri.parse(firstLeaf.uri), firstLeaf.line + 1);
+            } else {
+                this._updateTabState(tabId, (tab) => {
+                    tab.monacoContent = "// No specific reference to show context for.";
+                    tab.monacoRevealLine = 1;
+                    tab.monacoFileUri = "";
+                });
+                if (isActive) {
+                    this.sendCurrentDataToWebview();
+                }
+            }
+        } else if (isActive) {
+             this.sendCurrentDataToWebview({ preserveUiState: preserveUiState }); 
+        }
+        if (!isActive) {
+            this._sendTabsToWebview(); // The tab's stale mark is cleared
+        }
+    }
+
+    public updateCallHierarchyData(
+        items: vscode.CallHierarchyItem[],
+        direction: CallHierarchyDirection,
+        languageForMonaco: string,
+        run?: SearchRun
+    ) {
+        if (run && !this.isCurrentRun(run)) {
+            return;
+        }
+        const tabId = run?.tabId ?? this._activeTabId;
+        this._updateTabState(tabId, (tab) => {
+            tab.mode = "callHierarchy";
+            tab.isStale = false;
+            tab.callHierarchyDirection = direction;
+            tab.callHierarchyRoots = items;
+            tab.callHierarchyItems = new Map(); // Fresh map: a pinned tab may still hold the old one
+            tab.callHierarchyRootNodes = items.map((item) =>
+                this._createCallHierarchyNode(item, [], tab.callHierarchyItems)
+            );
+            tab.language = languageForMonaco;
+        });
+        if (tabId !== this._activeTabId) {
+            this._sendTabsToWebview();
+        }
+
+        // Preview the declaration of the first root item
+        const firstItem = items[0];
+        this._loadTabPreview(tabId, firstItem.uri, firstItem.selectionRange.start.line + 1);
+    }
+
+    // Shows a file in a tab's preview once it is read. By then the tab may be closed, taken over
+    // by a newer search or showing another file, and the content is dropped.
+    private async _loadTabPreview(tabId: number, uri: vscode.Uri, revealLine: number) {
+        const loadId = this._nextPreviewLoadId++;
+        this._previewLoads.set(tabId, loadId);
+        const runId = this._tabs.find((tab) => tab.id === tabId)?.runId;
+        const previousFileUri = this._getTabPreviewUri(tabId);
+        let content: string;
+        let language: string | undefined;
+        try {
+            content = await getFullFileContent(uri);
+            try {
+                // Specific language of the file being shown in Monaco
+                language = (await vscode.workspace.openTextDocument(uri)).languageId;
+            } catch (e) { /* ignore, keep the tab's language */ }
+        } catch (e) {
+            content = `// Error pre-loading: ${e}`;
+            revealLine = 1;
+        }
+        if (this._previewLoads.get(tabId) !== loadId) {
+            return; // A later load for the tab replaces this one
+        }
+        this._previewLoads.delete(tabId);
+        let isShown = false;
+        this._updateTabState(tabId, (tab) => {
+            if (tab.runId !== runId || tab.monacoFileUri !== previousFileUri) {
+                return;
+            }
+            tab.monacoFileUri = uri.toString();
+            tab.monacoContent = content;
+            tab.monacoRevealLine = revealLine;
+            tab.language = language ?? tab.language;
+            isShown = true;
+        });
+        if (isShown && tabId === this._activeTabId) {
+            this.sendCurrentDataToWebview();
+        }
+    }
+
+    private _getTabPreviewUri(tabId: number): string | undefined {
+        return tabId === this._activeTabId
+            ? this._currentMonacoFileUri
+            : this._tabs.find((tab) => tab.id === tabId)?.monacoFileUri;
+    }
+
+    private _createCallHierarchyNode(
+        item: vscode.CallHierarchyItem,
+        callSites: CallSiteLeaf[],
+        itemsById: Map<string, vscode.CallHierarchyItem> = this._callHierarchyItems
+    ): CallHierarchyNode {
+        const id = String(this._nextCallHierarchyId++);
+        itemsById.set(id, item);
+        return {
+            type: "call",
+            id: id,
+            name: item.name,
+            detail: item.detail ?? "",
+            kindIcon: symbolKindToCodicon(item.kind),
+            uri: item.uri.toString(),
+            fullPath: item.uri.fsPath,
+            line: item.selectionRange.start.line,
+            character: item.selectionRange.start.character,
+            callSites: callSites,
+        };
+    }
+
+    private async _resolveCallHierarchyChildren(id: string): Promise<CallHierarchyNode[]> {
+        const item = this._callHierarchyItems.get(id);
+        if (!item) {
+            return [];
+        }
+        try {
+            if (this._callHierarchyDirection === "incoming") {
+                const calls = await vscode.commands.executeCommand<
+                    vscode.CallHierarchyIncomingCall[]
+                >("vscode.provideIncomingCalls", item);
+                const children: CallHierarchyNode[] = [];
+                for (const call of calls ?? []) {
+                    const callSites = await createCallSiteLeaves(call.from.uri, call.fromRanges);
+                    children.push(this._createCallHierarchyNode(call.from, callSites));
+                }
+                return children;
+            } else {
+                const calls = await vscode.commands.executeCommand<
+                    vscode.CallHierarchyOutgoingCall[]
+                >("vscode.provideOutgoingCalls", item);
+                const children: CallHierarchyNode[] = [];
+                for (const call of calls ?? []) {
+                    // For outgoing calls, fromRanges are relative to the item being expanded
+                    const callSites = await createCallSiteLeaves(item.uri, call.fromRanges);
+                    children.push(this._createCallHierarchyNode(call.to, callSites));
+                }
+                return children;
+            }
+        } catch (e) {
+            console.warn(`Error resolving ${this._callHierarchyDirection} calls for ${item.name}: ${e}`);
+            return [];
+        }
+    }
+
+    private _getFilteredReferences(): TreeNode[] {
+        const predicates: ((leaf: ReferenceLeaf) => boolean)[] = [];
+        // Only reference searches carry an access kind
+        if (this._accessFilter !== "all" && this._searchMode === "references" && !this._locationSetTitle) {
+            const accessFilter = this._accessFilter;
+            predicates.push((leaf) => leaf.textual === true || leaf.accessKind === accessFilter);
+        }
+        const referenceFilterPredicate = createReferenceFilterPredicate(this._referenceFilter);
+        if (referenceFilterPredicate) {
+            predicates.push(referenceFilterPredicate);
+        }
+        if (predicates.length === 0) {
+            return this._currentReferences;
+        }
+        return filterTreeNodes(
+            this._currentReferences,
+            (leaf) => predicates.every((predicate) => predicate(leaf))
+        );
+    }
+
+    private sendCurrentDataToWebview(options: { preserveUiState?: boolean } = {}) {
+        // Enables the next/previous reference keybindings
+        vscode.commands.executeCommand(
+            "setContext",
+            "referencesContext.hasResults",
+            this._mode === "references" && this._currentReferences.length > 0
+        );
+        if (this._view && this._view.visible) {
+            this._view.webview.postMessage({
+                command: "updateStaleState",
+                payload: { stale: this._isStale },
+            });
+            if (this._mode === "callHierarchy") {
+                if (options.preserveUiState) {
+                    return; // Re-rendering would drop lazily loaded callers/callees
+                }
+                this._view.webview.postMessage({
+                    command: "updateCallTreeData",
+                    payload: {
+                        searchMode: this._searchMode,
+                        direction: this._callHierarchyDirection,
+                        roots: this._callHierarchyRootNodes,
+                    },
+                });
+            } else {
+                const filteredReferences = this._getFilteredReferences();
+                const newResults = this._currentReferences !== this._lastSentReferences;
+                this._lastSentReferences = this._currentReferences;
+                this._view.webview.postMessage({
+                    command: "updateTreeData",
+                    payload: {
+                        // Passed-in locations have no mode to switch from or access kinds to filter
+                        searchMode: this._locationSetTitle ? undefined : this._searchMode,
+                        references: filteredReferences,
+                        accessFilter: this._accessFilter,
+                        filter: this._referenceFilter,
+                        grouping: this._referenceGrouping,
+                        diffScope: this._diffScope?.label,
+                        visibleCount: countReferenceLeaves(filteredReferences),
+                        totalCount: countReferenceLeaves(this._currentReferences),
+                        preserveUiState: options.preserveUiState === true,
+                        newResults: newResults, // Ticked references only carry over filter changes
+                    },
+                });
+            }
+            // Only send monaco update if content is not the default placeholder OR if we intend to clear it
+            if (!options.preserveUiState &&
+                (this._currentMonacoContent !== DEFAULT_MONACO_CONTENT ||
+                this._currentReferences.length === 0)) {
+                this._sendMonacoContentToWebview();
             }
+        }
+    }
+
+    private _sendMonacoContentToWebview(preserveViewState: boolean = false) {
+        this._view?.webview.postMessage({
+            command: "updateMonacoContent",
+            payload: {
+                content: this._currentMonacoContent,
+                language: this._currentLanguage,
+                revealLine: this._currentMonacoRevealLine,
+                theme: this._currentMonacoTheme,
+                fileUri: this._currentMonacoFileUri,
+                version: vscode.workspace.textDocuments.find(
+                    (doc) => doc.uri.toString() === this._currentMonacoFileUri
+                )?.version, // Base version for edits made in the preview
+                preserveViewState: preserveViewState, // Live refresh: don't scroll or move the cursor
+            },
+        });
+        this._sendSemanticTokensToWebview();
+    }
+
+    // Monaco base theme plus token rules from the VS Code theme; the webview adds editor colors
+    private async _sendThemeToWebview() {
+        this._currentMonacoTheme = getMonacoBaseTheme(vscode.window.activeColorTheme.kind);
+        const hadSemanticHighlighting = this._previewTheme?.semanticHighlighting === true;
+        this._previewTheme = await resolvePreviewTheme();
+        this._view?.webview.postMessage({
+            command: "updateMonacoTheme",
+            payload: {
+                theme: this._currentMonacoTheme,
+                tokenRules: this._previewTheme.tokenRules,
+                semanticHighlighting: this._previewTheme.semanticHighlighting,
+            },
+        });
+        if (this._previewTheme.semanticHighlighting && !hadSemanticHighlighting) {
+            this._sendSemanticTokensToWebview();
+        }
+    }
+
+    // Semantic tokens of the previewed document, so Monaco colors identifiers like the editor does
+    private async _sendSemanticTokensToWebview() {
+        const fileUri = this._currentMonacoFileUri;
+        if (!fileUri || !this._previewTheme?.semanticHighlighting) {
+            return;
+        }
+        const tokens = await getPreviewSemanticTokens(vscode.Uri.parse(fileUri));
+        if (!tokens || fileUri !== this._currentMonacoFileUri) {
+            return;
+        }
+        this._view?.webview.postMessage({
+            command: "updateSemanticTokens",
+            payload: { uri: fileUri, ...tokens },
         });
-        this._currentMonacoTheme = vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark ? "vs-dark" : "vs";
     }
 
-    private async navigateToLocation(uri: vscode.Uri, range: vscode.Range) {
-        try {
-            const doc = await vscode.workspace.openTextDocument(uri);
-            await vscode.window.showTextDocument(doc, {
-                selection: range,
-                viewColumn: vscode.ViewColumn.Active,
-                preserveFocus: false,
-            });
-        } catch (e) {
-            vscode.window.showErrorMessage(`Could not open file: ${uri.fsPath}. ${e}`);
+    private _updateHtmlForView() {
+        if (this._view) {
+            this._view.show(true);
+            this._view.webview.html = this._getHtmlForWebview(this._view.webview);
+        }
+    }
+
+    private _getHtmlForWebview(webview: vscode.Webview): string {
+        const nonce = getNonce();
+        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'main.js'));
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'style.css'));
+        const monacoLoaderUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'monaco-vs', 'loader.js'));
+        const codiconsUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'codicon.css'));
+
+        let monacoBasePathForScripts = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'monaco-vs')).toString(true);
+        if (monacoBasePathForScripts.endsWith('/')) {
+            monacoBasePathForScripts = monacoBasePathForScripts.slice(0, -1);
+        }
+        monacoBasePathForScripts = monacoBasePathForScripts.replace(/%22/g, '');
+
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <meta http-equiv="Content-Security-Policy"
+                  content="default-src 'none';
+                           style-src ${webview.cspSource} 'unsafe-inline';
+                           font-src ${webview.cspSource} data:;
+                           script-src 'nonce-${nonce}' ${webview.cspSource} 'self' blob:;
+                           worker-src ${webview.cspSource} 'self' blob:;">
+            <link href="${codiconsUri}" rel="stylesheet" />
+            <link href="${styleUri}" rel="stylesheet">
+            <title>References Context</title>
+        </head>
+        <body>
+            <div id="result-tabs" hidden></div>
+            <div class="container">
+                <div class="references-list-section">
+                    <h3>
+                        <select id="search-mode-select" title="Search Mode">
+                            <option value="references">References</option>
+                            <option value="implementations">Implementations</option>
+                            <option value="typeDefinitions">Type Definitions</option>
+                            <option value="declarations">Declarations</option>
+                            <option value="supertypes">Supertypes</option>
+                            <option value="subtypes">Subtypes</option>
+                            <option value="textOccurrences">Text Occurrences</option>
+                            <option value="incomingCalls">Incoming Calls</option>
+                            <option value="outgoingCalls">Outgoing Calls</option>
+                        </select>
+                        <span class="header-actions">
+                            <button id="pin-tab-toggle" class="icon-button codicon codicon-pin" title="Pin Results (next search opens a new tab)"></button>
+                            <button id="history-back" class="icon-button codicon codicon-arrow-left" title="Previous Search" disabled></button>
+                            <button id="history-forward" class="icon-button codicon codicon-arrow-right" title="Next Search" disabled></button>
+                            <button id="history-toggle" class="icon-button codicon codicon-history" title="Search History"></button>
+                            <button id="filter-writes-toggle" class="icon-button codicon codicon-edit" title="Show Writes Only" hidden></button>
+                            <button id="filter-reads-toggle" class="icon-button codicon codicon-eye" title="Show Reads Only" hidden></button>
+                            <button id="call-direction-toggle" class="icon-button codicon codicon-arrow-swap" title="Show Outgoing Calls" hidden></button>
+                            <button id="diff-scope-toggle" class="icon-button codicon codicon-git-compare" title="Mark References on Changed Lines..."></button>
+                            <button id="snapshots-menu" class="icon-button codicon codicon-device-camera" title="Result Snapshots..."></button>
+                            <button id="export-results" class="icon-button codicon codicon-export" title="Export Results..."></button>
+                        </span>
+                    </h3>
+                    <div id="stale-banner" hidden>
+                        <span class="codicon codicon-warning"></span>
+                        <span class="stale-text">Results may be outdated by recent edits.</span>
+                        <button id="rerun-search" class="link-button">Re-run</button>
+                    </div>
+                    <div id="selection-bar" hidden>
+                        <span id="selection-count"></span>
+                        <button id="replace-selected" class="link-button">Replace in Selected...</button>
+                        <button id="review-selected" class="link-button">Mark Reviewed</button>
+                        <button id="unreview-selected" class="link-button">Mark Not Reviewed</button>
+                        <button id="clear-selection" class="link-button">Clear</button>
+                    </div>
+                    <div id="history-dropdown" hidden>
+                        <ul id="history-list"></ul>
+                        <button id="history-clear" class="text-button">Clear History</button>
+                    </div>
+                    <div id="reference-filter-bar">
+                        <div class="filter-row">
+                            <input id="filter-text-input" type="text" placeholder="Filter by text, file or symbol" spellcheck="false">
+                            <button id="hide-tests-toggle" class="icon-button codicon codicon-beaker" title="Hide Test Files"></button>
+                            <button id="changed-only-toggle" class="icon-button codicon codicon-diff" title="Show Only References on Changed Lines" hidden></button>
+                            <button id="hide-reviewed-toggle" class="icon-button codicon codicon-check-all" title="Hide Reviewed References"></button>
+                        </div>
+                        <div class="filter-row">
+                            <input id="filter-glob-input" type="text" placeholder="Files, e.g. src/**, !**/*.test.ts" spellcheck="false">
+                            <select id="grouping-select" title="Group By">
+                                <option value="folders">Folders</option>
+                                <option value="files">Files</option>
+                                <option value="symbols">Symbols</option>
+                                <option value="flat">Flat List</option>
+                            </select>
+                            <span id="reference-count"></span>
+                        </div>
+                    </div>
+                    <div id="reference-tree-container">
+                       <p class='initial-message'>Run 'Find References in Panel View' (Ctrl+Shift+Alt+F12) on a symbol.</p>
+                       <ul id="reference-tree-list" role="tree" tabindex="0" aria-label="Search Results"></ul>
+                    </div>
+                </div>
+                <div class="context-view-section">
+                    <h3>
+                        <span id="preview-title">Context Preview</span>
+                        <span class="header-actions">
+                            <button id="preview-edit-toggle" class="icon-button codicon codicon-edit" title="Enable Editing in Preview"></button>
+                        </span>
+                    </h3>
+                    <div id="monaco-editor-container"></div>
+                </div>
+            </div>
+            <script nonce="${nonce}">
+                window.MONACO_BASE_PATH = "${monacoBasePathForScripts}";
+            </script>
+            <script nonce="${nonce}" src="${monacoLoaderUri}"></script>
+            <script nonce="${nonce}" src="${scriptUri}"></script>
+        </body>
+        </html>`;
+    }
+}
+
+async function getFullFileContent(fileUri: vscode.Uri): Promise<string> {
+    try {
+        // Prefer the open document: it has unsaved edits, and untitled: or content-provider
+        // schemes (e.g. git:) can't be read through the file system at all
+        const openDocument = vscode.workspace.textDocuments.find(
+            (doc) => doc.uri.toString() === fileUri.toString()
+        );
+        if (openDocument) {
+            return openDocument.getText();
+        }
+        if (fileUri.scheme !== "file") {
+            const doc = await vscode.workspace.openTextDocument(fileUri);
+            return doc.getText();
+        }
+        const buffer = await vscode.workspace.fs.readFile(fileUri);
+        return new TextDecoder().decode(buffer);
+    } catch (e) {
+        console.error(`Error reading file content for ${fileUri.fsPath}:`, e);
+        const message = e instanceof Error ? e.message : String(e);
+        return `// Error loading content for ${path.basename(fileUri.fsPath)}\n// ${message}`;
+    }
+}
+
+function getMonacoBaseTheme(kind: vscode.ColorThemeKind): string {
+    switch (kind) {
+        case vscode.ColorThemeKind.Dark:
+            return "vs-dark";
+        case vscode.ColorThemeKind.HighContrast:
+            return "hc-black";
+        case vscode.ColorThemeKind.HighContrastLight:
+            return "hc-light";
+        default:
+            return "vs";
+    }
+}
+
+// Token rule in the shape monaco.editor.defineTheme expects
+interface MonacoTokenRule {
+    token: string;
+    foreground?: string;
+    fontStyle?: string;
+}
+
+interface PreviewTheme {
+    tokenRules: MonacoTokenRule[];
+    semanticHighlighting: boolean;
+}
+
+interface TextMateThemeRule {
+    scope?: string | string[];
+    settings?: { foreground?: string; fontStyle?: string };
+}
+
+type SemanticTokenStyle = string | {
+    foreground?: string;
+    fontStyle?: string;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    strikethrough?: boolean;
+};
+
+interface ColorThemeTokenColors {
+    tokenColors: TextMateThemeRule[];
+    semanticTokenColors: Record<string, SemanticTokenStyle>;
+    semanticHighlighting?: boolean;
+}
+
+// Monarch token names used by Monaco's grammars, with the TextMate scope that colors them in VS Code
+const MONARCH_TOKEN_SCOPES: Record<string, string> = {
+    comment: "comment",
+    string: "string",
+    "string.escape": "constant.character.escape",
+    keyword: "keyword",
+    number: "constant.numeric",
+    regexp: "string.regexp",
+    type: "entity.name.type",
+    "type.identifier": "entity.name.type",
+    identifier: "variable",
+    variable: "variable",
+    constant: "constant.language",
+    predefined: "support.function",
+    annotation: "meta.decorator",
+    operator: "keyword.operator",
+    delimiter: "punctuation",
+    tag: "entity.name.tag",
+    "attribute.name": "entity.other.attribute-name",
+    "attribute.value": "string",
+    key: "support.type.property-name",
+};
+
+// VS Code's fallback from semantic token types (and some modifiers) to TextMate scopes,
+// used when the theme has no semanticTokenColors entry for them
+const SEMANTIC_TOKEN_SCOPES: Record<string, string> = {
+    namespace: "entity.name.namespace",
+    type: "entity.name.type",
+    class: "entity.name.type.class",
+    enum: "entity.name.type.enum",
+    interface: "entity.name.type.interface",
+    struct: "entity.name.type.struct",
+    typeParameter: "entity.name.type.parameter",
+    parameter: "variable.parameter",
+    variable: "variable.other.readwrite",
+    property: "variable.other.property",
+    enumMember: "variable.other.enummember",
+    event: "variable.other.event",
+    function: "entity.name.function",
+    method: "entity.name.function.member",
+    macro: "entity.name.function.preprocessor",
+    label: "entity.name.label",
+    decorator: "entity.name.decorator",
+    keyword: "keyword.control",
+    comment: "comment",
+    string: "string",
+    number: "constant.numeric",
+    regexp: "string.regexp",
+    operator: "keyword.operator",
+    "variable.readonly": "variable.other.constant",
+    "property.readonly": "variable.other.constant.property",
+    "variable.defaultLibrary": "support.variable",
+    "function.defaultLibrary": "support.function",
+    "class.defaultLibrary": "support.class",
+};
+
+// Token colors of the active color theme plus the user's customizations, translated into
+// Monaco theme rules. Editor colors come from the webview's CSS variables instead.
+async function resolvePreviewTheme(): Promise<PreviewTheme> {
+    const themeName = vscode.workspace.getConfiguration("workbench").get<string>("colorTheme");
+    const themeColors: ColorThemeTokenColors = { tokenColors: [], semanticTokenColors: {} };
+    const themeUri = themeName ? findColorThemeUri(themeName) : undefined;
+    if (themeUri) {
+        try {
+            await loadColorThemeTokenColors(themeUri, themeColors);
+        } catch (e) {
+            console.warn(`Could not read token colors of theme ${themeName}: ${e}`);
+        }
+    }
+
+    const editorConfig = vscode.workspace.getConfiguration("editor");
+    const tokenCustomizations = editorConfig.get<{ [key: string]: unknown }>("tokenColorCustomizations") ?? {};
+    const shorthandScopes: Record<string, string> = {
+        comments: "comment",
+        strings: "string",
+        keywords: "keyword",
+        numbers: "constant.numeric",
+        types: "entity.name.type",
+        functions: "entity.name.function",
+        variables: "variable",
+    };
+    for (const [key, scope] of Object.entries(shorthandScopes)) {
+        const value = tokenCustomizations[key];
+        if (typeof value === "string") {
+            themeColors.tokenColors.push({ scope, settings: { foreground: value } });
+        } else if (value && typeof value === "object") {
+            themeColors.tokenColors.push({ scope, settings: value as TextMateThemeRule["settings"] });
+        }
+    }
+    if (Array.isArray(tokenCustomizations.textMateRules)) {
+        themeColors.tokenColors.push(...(tokenCustomizations.textMateRules as TextMateThemeRule[]));
+    }
+    const semanticCustomizations = editorConfig.get<{ enabled?: boolean; rules?: Record<string, SemanticTokenStyle> }>(
+        "semanticTokenColorCustomizations"
+    ) ?? {};
+    Object.assign(themeColors.semanticTokenColors, semanticCustomizations.rules ?? {});
+
+    const rules = new Map<string, MonacoTokenRule>();
+    const addRule = (token: string, style: { foreground?: string; fontStyle?: string } | undefined) => {
+        const foreground = normalizeTokenColor(style?.foreground);
+        if (foreground || style?.fontStyle !== undefined) {
+            rules.set(token, { token, foreground, fontStyle: style?.fontStyle });
+        }
+    };
+    for (const [token, scope] of Object.entries(MONARCH_TOKEN_SCOPES)) {
+        addRule(token, matchTextMateScope(themeColors.tokenColors, scope));
+    }
+    for (const [token, scope] of Object.entries(SEMANTIC_TOKEN_SCOPES)) {
+        addRule(token, matchTextMateScope(themeColors.tokenColors, scope));
+    }
+    for (const [selector, style] of Object.entries(themeColors.semanticTokenColors)) {
+        // Language-qualified (type:lang) and wildcard (*.modifier) selectors have no Monaco equivalent
+        if (!selector.includes(":") && !selector.startsWith("*")) {
+            addRule(selector, toTokenStyle(style));
+        }
+    }
+
+    const semanticSetting = editorConfig.get<boolean | string>("semanticHighlighting.enabled", "configuredByTheme");
+    const semanticHighlighting = typeof semanticSetting === "boolean"
+        ? semanticSetting
+        : semanticCustomizations.enabled ?? themeColors.semanticHighlighting ?? false;
+    return { tokenRules: [...rules.values()], semanticHighlighting };
+}
+
+function findColorThemeUri(themeName: string): vscode.Uri | undefined {
+    for (const extension of vscode.extensions.all) {
+        const themes: { id?: string; label?: string; path?: string }[] =
+            extension.packageJSON?.contributes?.themes ?? [];
+        const theme = themes.find((t) => (t.id ?? t.label) === themeName) ??
+            themes.find((t) => t.label === themeName);
+        if (theme?.path) {
+            return vscode.Uri.joinPath(extension.extensionUri, theme.path);
+        }
+    }
+    return undefined;
+}
+
+async function loadColorThemeTokenColors(themeUri: vscode.Uri, into: ColorThemeTokenColors): Promise<void> {
+    const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(themeUri));
+    const theme = parseJsonWithComments(text);
+    if (!isRecord(theme)) {
+        return;
+    }
+    if (typeof theme.include === "string") {
+        // Included themes come first so this theme's rules win
+        await loadColorThemeTokenColors(vscode.Uri.joinPath(themeUri, "..", theme.include), into);
+    }
+    // tokenColors may also point at a .tmTheme plist, which isn't supported here
+    if (Array.isArray(theme.tokenColors)) {
+        into.tokenColors.push(...theme.tokenColors.filter(isTextMateThemeRule));
+    }
+    if (isRecord(theme.semanticTokenColors)) {
+        for (const [selector, style] of Object.entries(theme.semanticTokenColors)) {
+            if (typeof style === "string" || isRecord(style)) {
+                into.semanticTokenColors[selector] = style;
+            }
+        }
+    }
+    if (typeof theme.semanticHighlighting === "boolean") {
+        into.semanticHighlighting = theme.semanticHighlighting;
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Theme files are hand-written, so rules with unexpected shapes are skipped rather than trusted
+function isTextMateThemeRule(value: unknown): value is TextMateThemeRule {
+    if (!isRecord(value)) {
+        return false;
+    }
+    const { scope, settings } = value;
+    const hasValidScope =
+        scope === undefined ||
+        typeof scope === "string" ||
+        (Array.isArray(scope) && scope.every((s) => typeof s === "string"));
+    const hasValidSettings =
+        settings === undefined ||
+        (isRecord(settings) &&
+            ["string", "undefined"].includes(typeof settings.foreground) &&
+            ["string", "undefined"].includes(typeof settings.fontStyle));
+    return hasValidScope && hasValidSettings;
+}
+
+// Theme files are JSONC: strip comments and trailing commas, leaving string contents alone
+function parseJsonWithComments(text: string): unknown {
+    const stripped = text.replace(
+        /("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\/|,(\s*[}\]])/g,
+        (match, str: string | undefined, closing: string | undefined) => str ?? closing ?? ""
+    );
+    return JSON.parse(stripped);
+}
+
+// Resolves foreground and font style for a scope like TextMate does: the longest matching
+// selector prefix wins, later rules win ties. Descendant selectors ("a b") are ignored.
+function matchTextMateScope(
+    rules: TextMateThemeRule[],
+    scope: string
+): { foreground?: string; fontStyle?: string } | undefined {
+    let foreground: string | undefined;
+    let foregroundLength = -1;
+    let fontStyle: string | undefined;
+    let fontStyleLength = -1;
+    for (const rule of rules) {
+        const selectors = Array.isArray(rule.scope)
+            ? rule.scope
+            : (rule.scope ?? "").split(",");
+        for (const rawSelector of selectors) {
+            const selector = rawSelector.trim();
+            if (!selector || selector.includes(" ")) {
+                continue;
+            }
+            if (scope !== selector && !scope.startsWith(selector + ".")) {
+                continue;
+            }
+            if (rule.settings?.foreground && selector.length >= foregroundLength) {
+                foreground = rule.settings.foreground;
+                foregroundLength = selector.length;
+            }
+            if (rule.settings?.fontStyle !== undefined && selector.length >= fontStyleLength) {
+                fontStyle = rule.settings.fontStyle;
+                fontStyleLength = selector.length;
+            }
+        }
+    }
+    return foreground || fontStyle !== undefined ? { foreground, fontStyle } : undefined;
+}
+
+function toTokenStyle(style: SemanticTokenStyle): { foreground?: string; fontStyle?: string } {
+    if (typeof style === "string") {
+        return { foreground: style };
+    }
+    const fontStyles = (["bold", "italic", "underline", "strikethrough"] as const)
+        .filter((name) => style[name]);
+    return {
+        foreground: style.foreground,
+        fontStyle: style.fontStyle ?? (fontStyles.length > 0 ? fontStyles.join(" ") : undefined),
+    };
+}
+
+// Monaco token colors must be #RRGGBB; alpha is dropped
+function normalizeTokenColor(color: string | undefined): string | undefined {
+    const match = color?.trim().match(/^#([0-9a-f]{3,8})$/i);
+    if (!match) {
+        return undefined;
+    }
+    let hex = match[1];
+    if (hex.length === 3 || hex.length === 4) {
+        hex = hex.split("").map((c) => c + c).join("");
+    }
+    return hex.length === 6 || hex.length === 8 ? "#" + hex.slice(0, 6) : undefined;
+}
+
+interface PreviewSemanticTokens {
+    legend: { tokenTypes: string[]; tokenModifiers: string[] };
+    data: number[];
+    version: number;
+}
+
+async function getPreviewSemanticTokens(uri: vscode.Uri): Promise<PreviewSemanticTokens | undefined> {
+    const doc = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString());
+    if (!doc) {
+        return undefined;
+    }
+    const version = doc.version;
+    try {
+        const legend = await vscode.commands.executeCommand<vscode.SemanticTokensLegend | undefined>(
+            "vscode.provideDocumentSemanticTokensLegend",
+            uri
+        );
+        const tokens = legend && await vscode.commands.executeCommand<vscode.SemanticTokens | undefined>(
+            "vscode.provideDocumentSemanticTokens",
+            uri
+        );
+        if (!legend || !tokens || doc.version !== version) {
+            return undefined; // No provider, or the document changed while tokens were computed
+        }
+        return {
+            legend: { tokenTypes: legend.tokenTypes, tokenModifiers: legend.tokenModifiers },
+            data: Array.from(tokens.data),
+            version,
+        };
+    } catch (e) {
+        console.warn(`Could not get semantic tokens for ${uri.toString()}: ${e}`);
+        return undefined;
+    }
+}
+
+async function createCallSiteLeaves(
+    uri: vscode.Uri,
+    ranges: vscode.Range[]
+): Promise<CallSiteLeaf[]> {
+    let doc: vscode.TextDocument | undefined;
+    try {
+        doc = await vscode.workspace.openTextDocument(uri);
+    } catch (e) {
+        console.warn(`Error loading call sites in ${uri.fsPath}: ${e}`);
+    }
+    return ranges
+        .map((range): CallSiteLeaf => ({
+            type: "callSite",
+            uri: uri.toString(),
+            fullPath: uri.fsPath,
+            line: range.start.line,
+            character: range.start.character,
+            previewText: doc
+                ? doc.lineAt(range.start.line).text.trim()
+                : "[Error loading preview]",
+        }))
+        .sort((a, b) => a.line - b.line || a.character - b.character);
+}
+
+function symbolKindToCodicon(kind: vscode.SymbolKind): string {
+    // SymbolKind names map onto codicon ids, e.g. EnumMember -> symbol-enum-member
+    const kindName = vscode.SymbolKind[kind] ?? "Misc";
+    return "symbol-" + kindName.replace(/([a-z])([A-Z])/g, "$1-$2").toLowerCase();
+}
+
+// Range as sent by Monaco in the webview (1-based)
+interface MonacoRange {
+    startLineNumber: number;
+    startColumn: number;
+    endLineNumber: number;
+    endColumn: number;
+}
+
+function monacoRangeToVscode(range: MonacoRange): vscode.Range {
+    return new vscode.Range(
+        range.startLineNumber - 1,
+        range.startColumn - 1,
+        range.endLineNumber - 1,
+        range.endColumn - 1
+    );
+}
+
+function vscodeRangeToMonaco(range: vscode.Range): MonacoRange {
+    return {
+        startLineNumber: range.start.line + 1,
+        startColumn: range.start.character + 1,
+        endLineNumber: range.end.line + 1,
+        endColumn: range.end.character + 1,
+    };
+}
+
+function hoverContentToMarkdown(content: vscode.MarkdownString | vscode.MarkedString): string {
+    if (typeof content === "string") {
+        return content;
+    }
+    if ("language" in content) {
+        return "```" + content.language + "\n" + content.value + "\n```";
+    }
+    return content.value;
+}
+
+function getDisplayFileName(uri: vscode.Uri): string {
+    const fileName = path.basename(uri.fsPath);
+    // Tell e.g. a git: revision apart from the working copy of the same file
+    if (uri.scheme !== "file" && uri.scheme !== "untitled") {
+        return `${fileName} (${uri.scheme})`;
+    }
+    return fileName;
+}
+
+function getNonce(): string {
+    return crypto.randomBytes(16).toString("base64");
+}
+
+// Symbol kinds references are grouped under, from referencesContext.groupBySymbolKinds
+function getGroupingSymbolKinds(): Set<vscode.SymbolKind> {
+    const kindNames = vscode.workspace
+        .getConfiguration("referencesContext")
+        .get<string[]>("groupBySymbolKinds", []);
+    const kinds = new Set<vscode.SymbolKind>();
+    for (const name of kindNames) {
+        const kind = vscode.SymbolKind[name as keyof typeof vscode.SymbolKind];
+        if (kind !== undefined) {
+            kinds.add(kind);
+        }
+    }
+    return kinds;
+}
+
+// All symbols containing the position, outermost first
+function findEnclosingSymbolPath(
+    symbols: vscode.DocumentSymbol[],
+    position: vscode.Position
+): vscode.DocumentSymbol[] {
+    for (const symbol of symbols) {
+        if (symbol.range.contains(position)) {
+            return [symbol, ...findEnclosingSymbolPath(symbol.children ?? [], position)];
+        }
+    }
+    return [];
+}
+
+// Narrows the leaf's containing symbols to the grouping kinds, so a settings change can
+// regroup existing results without asking the symbol providers again
+function setLeafSymbolPath(leaf: ReferenceLeaf, groupingKinds: Set<vscode.SymbolKind>) {
+    const symbolPath = leaf.containingSymbols?.filter((symbol) => groupingKinds.has(symbol.kind));
+    leaf.symbolPath = symbolPath && symbolPath.length > 0 ? symbolPath : undefined;
+    leaf.enclosingSymbol = leaf.symbolPath?.map((symbol) => symbol.name).join(" > ");
+}
+
+async function classifyReferenceAccess(
+    doc: vscode.TextDocument,
+    range: vscode.Range,
+    highlightsByFile: Map<string, vscode.DocumentHighlight[]>
+): Promise<ReferenceAccessKind | undefined> {
+    // Highlights cover every occurrence of the symbol in the file, so one request
+    // usually classifies all references in that file.
+    const fileKey = doc.uri.toString();
+    let highlight = highlightsByFile
+        .get(fileKey)
+        ?.find((h) => h.range.contains(range.start));
+    if (!highlight) {
+        const highlights = await vscode.commands.executeCommand<vscode.DocumentHighlight[]>(
+            'vscode.executeDocumentHighlights',
+            doc.uri,
+            range.start
+        );
+        highlightsByFile.set(fileKey, highlights ?? []);
+        highlight = highlights?.find((h) => h.range.contains(range.start));
+    }
+    if (!highlight) {
+        return undefined;
+    }
+    switch (highlight.kind) {
+        case vscode.DocumentHighlightKind.Write:
+            return "write";
+        case vscode.DocumentHighlightKind.Read:
+            return "read";
+        default:
+            return "text";
+    }
+}
+
+function filterTreeNodes(
+    nodes: TreeNode[],
+    predicate: (leaf: ReferenceLeaf) => boolean
+): TreeNode[] {
+    // Prunes directories, files and function groups left without any matching leaf
+    const filtered: TreeNode[] = [];
+    for (const node of nodes) {
+        if (node.type === "leaf") {
+            if (predicate(node)) {
+                filtered.push(node);
+            }
+        } else if (node.type === "function") {
+            const children = filterTreeNodes(node.children, predicate) as FileChildNode[];
+            if (children.length > 0) {
+                filtered.push({
+                    ...node,
+                    children,
+                    totalReferences: countReferenceLeaves([node]),
+                    reviewedReferences: countReviewedLeaves([node]),
+                });
+            }
+        } else if (node.type === "directory") {
+            const children = filterTreeNodes(node.children, predicate) as (DirectoryNode | FileNode)[];
+            if (children.length > 0) {
+                filtered.push({
+                    ...node,
+                    children,
+                    totalReferences: countReferenceLeaves([node]),
+                    reviewedReferences: countReviewedLeaves([node]),
+                });
+            }
+        } else {
+            const children = filterTreeNodes(node.children, predicate) as FileChildNode[];
+            if (children.length > 0) {
+                filtered.push({
+                    ...node,
+                    children,
+                    totalReferences: countReferenceLeaves([node]),
+                    reviewedReferences: countReviewedLeaves([node]),
+                });
+            }
+        }
+    }
+    return filtered;
+}
+
+function countReviewedLeaves(nodes: TreeNode[]): number {
+    return collectReferenceLeaves(nodes).filter((leaf) => leaf.reviewed).length;
+}
+
+function countReferenceLeaves(nodes: TreeNode[]): number {
+    let count = 0;
+    for (const node of nodes) {
+        if (node.type === "leaf") {
+            count++;
+        } else {
+            count += countReferenceLeaves(node.children);
+        }
+    }
+    return count;
+}
+
+function globToRegExp(glob: string): RegExp {
+    // Patterns without a path separator match at any depth, like VS Code's search include/exclude
+    if (!glob.includes("/")) {
+        glob = "**/" + glob;
+    }
+    // Braces without a partner are literal, so a half-typed "{a" still compiles
+    const groupBraces: Set<number> = new Set();
+    const openBraces: number[] = [];
+    for (let i = 0; i < glob.length; i++) {
+        if (glob[i] === "{") {
+            openBraces.push(i);
+        } else if (glob[i] === "}" && openBraces.length > 0) {
+            groupBraces.add(openBraces.pop()!);
+            groupBraces.add(i);
+        }
+    }
+    let pattern = "";
+    let groupDepth = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === "*" && glob[i + 1] === "*") {
+            // "**/" matches zero or more directories
+            if (glob[i + 2] === "/") {
+                pattern += "(?:.*/)?";
+                i += 2;
+            } else {
+                pattern += ".*";
+                i++;
+            }
+        } else if (char === "*") {
+            pattern += "[^/]*";
+        } else if (char === "?") {
+            pattern += "[^/]";
+        } else if (char === "{" && groupBraces.has(i)) {
+            pattern += "(?:";
+            groupDepth++;
+        } else if (char === "}" && groupBraces.has(i)) {
+            pattern += ")";
+            groupDepth--;
+        } else if (char === "," && groupDepth > 0) {
+            pattern += "|";
+        } else {
+            pattern += char.replace(/[.+^$(){}|[\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${pattern}$`);
+}
+
+function splitGlobList(globs: string): string[] {
+    // Split on commas outside of {a,b} groups
+    const parts: string[] = [];
+    let depth = 0;
+    let current = "";
+    for (const char of globs) {
+        if (char === "," && depth === 0) {
+            parts.push(current);
+            current = "";
+            continue;
+        }
+        if (char === "{") {
+            depth++;
+        } else if (char === "}") {
+            depth = Math.max(0, depth - 1);
         }
+        current += char;
     }
+    parts.push(current);
+    return parts.map((part) => part.trim()).filter((part) => part.length > 0);
+}
 
-    public updateViewData(
-        references: TreeNode[],
-        languageForMonaco: string, // Explicitly pass language for Monaco
-        shouldUpdateMonacoWithFirstRef: boolean = false
-    ) {
-        this._currentReferences = references;
-        this._currentLanguage = languageForMonaco; // This is the primary language for Monaco context
+function createSnapshotReference(leaf: ReferenceLeaf): SnapshotReference {
+    return {
+        uri: leaf.uri,
+        line: leaf.line,
+        character: leaf.character,
+        endLine: leaf.endLine,
+        endCharacter: leaf.endCharacter,
+        previewText: leaf.previewText,
+        containingSymbols: leaf.containingSymbols,
+    };
+}
 
-        if (shouldUpdateMonacoWithFirstRef) {
-            let firstLeaf: ReferenceLeaf | undefined;
-            
-            function findFirstLeafRecursive(nodes: (TreeNode | FileChildNode)[]): ReferenceLeaf | undefined {
-                for (const node of nodes) {
-                    if (node.type === "leaf") return node;
-                    if (node.type === "file") {
-                        const leaf = findFirstLeafRecursive(node.children);
-                        if (leaf) return leaf;
-                    } else if (node.type === "directory") {
-                        const leaf = findFirstLeafRecursive(node.children);
-                        if (leaf) return leaf;
-                    } else if (node.type === "function") {
-                        const leaf = findFirstLeafRecursive(node.references);
-                        if (leaf) return leaf;
-                    }
-                }
-                return undefined;
-            }
-            firstLeaf = findFirstLeafRecursive(references);
+function compareSnapshotReferences(
+    baseReferences: SnapshotReference[],
+    otherReferences: SnapshotReference[]
+): ReferenceLeaf[] {
+    // Matched by file, enclosing symbols and line text, so references that only moved
+    // count as unchanged. Repeated keys are paired in source order.
+    const getKey = (reference: SnapshotReference) =>
+        [
+            reference.uri,
+            (reference.containingSymbols ?? []).map((symbol) => symbol.name).join(" > "),
+            reference.previewText,
+        ].join("\n");
+    const bySourceOrder = (a: SnapshotReference, b: SnapshotReference) =>
+        a.line - b.line || a.character - b.character;
+    const unmatchedBase: Map<string, SnapshotReference[]> = new Map();
+    for (const reference of [...baseReferences].sort(bySourceOrder)) {
+        const key = getKey(reference);
+        if (!unmatchedBase.has(key)) {
+            unmatchedBase.set(key, []);
+        }
+        unmatchedBase.get(key)!.push(reference);
+    }
 
+    const groupingKinds = getGroupingSymbolKinds();
+    const leaves: ReferenceLeaf[] = [];
+    for (const reference of [...otherReferences].sort(bySourceOrder)) {
+        const matching = unmatchedBase.get(getKey(reference));
+        const status: SnapshotDiffStatus = matching && matching.length > 0 ? "unchanged" : "added";
+        matching?.shift();
+        leaves.push(createLeafFromSnapshotReference(reference, status, groupingKinds));
+    }
+    for (const references of unmatchedBase.values()) {
+        for (const reference of references) {
+            leaves.push(createLeafFromSnapshotReference(reference, "removed", groupingKinds));
+        }
+    }
+    return leaves;
+}
 
-            if (firstLeaf) {
-                this._currentMonacoFileUri = firstLeaf.uri; 
-                getFullFileContent(vscode.Uri.parse(firstLeaf.uri))
-                    .then(async (content) => {
-                        this._currentMonacoContent = content;
-                        this._currentMonacoRevealLine = firstLeaf!.line + 1;
-                        // Determine specific language of the file being shown in Monaco
-                        let specificFileLanguage = this._currentLanguage; // Default to overall language
-                        try {
-                            const doc = await vscode.workspace.openTextDocument(vscode.Uri.parse(firstLeaf!.uri));
-                            specificFileLanguage = doc.languageId;
-                        } catch(e) { /* ignore, use default */ }
-                        this._currentLanguage = specificFileLanguage; // Update if more specific found
+function createLeafFromSnapshotReference(
+    reference: SnapshotReference,
+    status: SnapshotDiffStatus,
+    groupingKinds: Set<vscode.SymbolKind>
+): ReferenceLeaf {
+    const uri = vscode.Uri.parse(reference.uri);
+    const leaf: ReferenceLeaf = {
+        type: "leaf",
+        id: String(nextReferenceLeafId++),
+        uri: reference.uri,
+        fileName: getDisplayFileName(uri),
+        fullPath: uri.fsPath,
+        line: reference.line,
+        character: reference.character,
+        endLine: reference.endLine,
+        endCharacter: reference.endCharacter,
+        previewText: reference.previewText,
+        containingSymbols: reference.containingSymbols,
+        diffStatus: status,
+        originalLocation: new vscode.Location(
+            uri,
+            new vscode.Range(reference.line, reference.character, reference.endLine, reference.endCharacter)
+        ),
+    };
+    setLeafSymbolPath(leaf, groupingKinds);
+    return leaf;
+}
 
-                        this.sendCurrentDataToWebview();
-                    })
-                    .catch((e) => {
-                        this._currentMonacoContent = `// Error pre-loading: ${e}`;
-                        this._currentMonacoRevealLine = 1;
-                        this.sendCurrentDataToWebview();
-                    });
-            } else {
-                this._currentMonacoContent = "// No specific reference to show context for.";
-                this._currentMonacoRevealLine = 1;
-                this._currentMonacoFileUri = "";
-                this.sendCurrentDataToWebview(); 
-            }
+function matchReviewsToLeaves(
+    reviews: PersistedReview[],
+    leaves: ReferenceLeaf[]
+): Map<ReferenceLeaf, PersistedReview> {
+    // Exact positions first, so a shifted line can't take the entry of a reference that
+    // didn't move. The rest are matched by text to the nearest unused entry.
+    const matches: Map<ReferenceLeaf, PersistedReview> = new Map();
+    const used: Set<PersistedReview> = new Set();
+    const reviewsByUri: Map<string, PersistedReview[]> = new Map();
+    for (const review of reviews) {
+        if (!reviewsByUri.has(review.uri)) {
+            reviewsByUri.set(review.uri, []);
+        }
+        reviewsByUri.get(review.uri)!.push(review);
+    }
+    const unmatchedLeaves: ReferenceLeaf[] = [];
+    for (const leaf of leaves) {
+        const review = reviewsByUri
+            .get(leaf.uri)
+            ?.find((r) => !used.has(r) && r.line === leaf.line && r.character === leaf.character);
+        if (review) {
+            matches.set(leaf, review);
+            used.add(review);
         } else {
-             this.sendCurrentDataToWebview(); 
+            unmatchedLeaves.push(leaf);
         }
     }
-
-    private sendCurrentDataToWebview() {
-        if (this._view && this._view.visible) {
-            this._view.webview.postMessage({
-                command: "updateTreeData",
-                payload: {
-                    references: this._currentReferences,
-                },
-            });
-            // Only send monaco update if content is not the default placeholder OR if we intend to clear it
-            if (this._currentMonacoContent !== "// Select a reference on the left to see its context here.\n// Double-click a reference to navigate in the main editor." || 
-                this._currentReferences.length === 0) {
-                 this._view.webview.postMessage({
-                    command: "updateMonacoContent",
-                    payload: {
-                        content: this._currentMonacoContent,
-                        language: this._currentLanguage, 
-                        revealLine: this._currentMonacoRevealLine,
-                        theme: this._currentMonacoTheme,
-                        fileUri: this._currentMonacoFileUri, 
-                    },
-                });
+    for (const leaf of unmatchedLeaves) {
+        let nearest: PersistedReview | undefined;
+        for (const review of reviewsByUri.get(leaf.uri) ?? []) {
+            const distance = Math.abs(review.line - leaf.line);
+            if (
+                !used.has(review) &&
+                review.character === leaf.character &&
+                review.lineText === leaf.previewText &&
+                distance <= REVIEW_LINE_TOLERANCE &&
+                (!nearest || distance < Math.abs(nearest.line - leaf.line))
+            ) {
+                nearest = review;
             }
         }
+        if (nearest) {
+            matches.set(leaf, nearest);
+            used.add(nearest);
+        }
     }
+    return matches;
+}
 
-    private _updateHtmlForView() {
-        if (this._view) {
-            this._view.show(true);
-            this._view.webview.html = this._getHtmlForWebview(this._view.webview);
-        }
+// Reviews follow the symbol, whichever of its references the search was started from. Symbols
+// with the same name are told apart by their declaration, or by the search itself without one.
+async function getSymbolReviewKey(mode: SearchMode, origin: SearchOrigin): Promise<string> {
+    let declaration: vscode.Location | undefined;
+    try {
+        const definitions = await vscode.commands.executeCommand<vscode.LocationLink[] | vscode.Location[]>(
+            "vscode.executeDefinitionProvider",
+            origin.uri,
+            origin.position
+        );
+        declaration = definitions && definitions.length > 0 ? toLocation(definitions[0]) : undefined;
+    } catch (e) {
+        console.warn(`Could not find the declaration of ${origin.symbolName}, keying reviews by the search.`, e);
     }
+    if (declaration) {
+        const { line, character } = declaration.range.start;
+        return `symbol:${origin.symbolName}@${declaration.uri.toString()}:${line}:${character}`;
+    }
+    const { line, character } = origin.position;
+    return `search:${mode}:${origin.symbolName}@${origin.uri.toString()}:${line}:${character}`;
+}
 
-    private _getHtmlForWebview(webview: vscode.Webview): string {
-        const nonce = getNonce();
-        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'main.js'));
-        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'style.css'));
-        const monacoLoaderUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'monaco-vs', 'loader.js'));
-        const codiconsUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'codicon.css'));
+function createReferenceFilterPredicate(
+    filter: ReferenceFilter
+): ((leaf: ReferenceLeaf) => boolean) | undefined {
+    const text = filter.text.trim().toLowerCase();
+    const includes: RegExp[] = [];
+    const excludes: RegExp[] = [];
+    for (const glob of splitGlobList(filter.globs)) {
+        if (glob.startsWith("!")) {
+            excludes.push(globToRegExp(glob.slice(1)));
+        } else {
+            includes.push(globToRegExp(glob));
+        }
+    }
+    if (filter.hideTestFiles) {
+        excludes.push(...TEST_FILE_GLOBS.map(globToRegExp));
+    }
+    if (!text && includes.length === 0 && excludes.length === 0 && !filter.changedOnly && !filter.hideReviewed) {
+        return undefined;
+    }
 
-        let monacoBasePathForScripts = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'monaco-vs')).toString(true);
-        if (monacoBasePathForScripts.endsWith('/')) {
-            monacoBasePathForScripts = monacoBasePathForScripts.slice(0, -1);
+    return (leaf) => {
+        if (filter.changedOnly && !leaf.changed) {
+            return false;
         }
-        monacoBasePathForScripts = monacoBasePathForScripts.replace(/%22/g, '');
+        if (filter.hideReviewed && leaf.reviewed) {
+            return false;
+        }
+        if (
+            text &&
+            !leaf.previewText.toLowerCase().includes(text) &&
+            !leaf.fileName.toLowerCase().includes(text) &&
+            !(leaf.enclosingSymbol ?? "").toLowerCase().includes(text)
+        ) {
+            return false;
+        }
+        if (includes.length === 0 && excludes.length === 0) {
+            return true;
+        }
+        const relativePath = vscode.workspace
+            .asRelativePath(leaf.originalLocation.uri, false)
+            .replace(/\\/g, "/");
+        if (includes.length > 0 && !includes.some((re) => re.test(relativePath))) {
+            return false;
+        }
+        return !excludes.some((re) => re.test(relativePath));
+    };
+}
 
-        return `<!DOCTYPE html>
-        <html lang="en">
-        <head>
-            <meta charset="UTF-8">
-            <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            <meta http-equiv="Content-Security-Policy"
-                  content="default-src 'none';
-                           style-src ${webview.cspSource} 'unsafe-inline';
-                           font-src ${webview.cspSource} data:;
-                           script-src 'nonce-${nonce}' ${webview.cspSource} 'self' blob:;
-                           worker-src ${webview.cspSource} 'self' blob:;">
-            <link href="${codiconsUri}" rel="stylesheet" />
-            <link href="${styleUri}" rel="stylesheet">
-            <title>References Context</title>
-        </head>
-        <body>
-            <div class="container">
-                <div class="references-list-section">
-                    <h3>References</h3>
-                    <div id="reference-tree-container">
-                       <p class='initial-message'>Run 'Find References in Panel View' (Ctrl+Shift+Alt+F12) on a symbol.</p>
-                       <ul id="reference-tree-list"></ul>
-                    </div>
-                </div>
-                <div class="context-view-section">
-                    <h3>Context Preview</h3>
-                    <div id="monaco-editor-container"></div>
-                </div>
-            </div>
-            <script nonce="${nonce}">
-                window.MONACO_BASE_PATH = "${monacoBasePathForScripts}";
-            </script>
-            <script nonce="${nonce}" src="${monacoLoaderUri}"></script>
-            <script nonce="${nonce}" src="${scriptUri}"></script>
-        </body>
-        </html>`;
-    }
+// Minimal typings for the built-in Git extension's API (extensions/git/src/api/git.d.ts)
+interface GitRef {
+    type: number;
+    name?: string;
+    commit?: string;
 }
 
-async function getFullFileContent(fileUri: vscode.Uri): Promise<string> {
+interface GitChange {
+    uri: vscode.Uri;
+    status: number;
+}
+
+interface GitRepository {
+    rootUri: vscode.Uri;
+    state: {
+        refs: GitRef[];
+        workingTreeChanges: GitChange[];
+        untrackedChanges?: GitChange[]; // Only when git.untrackedChanges is "separate"
+    };
+    diffWith(ref: string, path: string): Promise<string>;
+}
+
+interface GitApi {
+    repositories: GitRepository[];
+    getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+const GIT_REF_TYPE_REMOTE_HEAD = 1;
+const GIT_REF_TYPE_TAG = 2;
+const GIT_STATUS_UNTRACKED = 7;
+
+async function getGitApi(): Promise<GitApi | undefined> {
+    const extension = vscode.extensions.getExtension<{ enabled: boolean; getAPI(version: 1): GitApi }>("vscode.git");
+    if (!extension) {
+        return undefined;
+    }
     try {
-        const buffer = await vscode.workspace.fs.readFile(fileUri);
-        return new TextDecoder().decode(buffer);
+        const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+        return gitExtension.enabled ? gitExtension.getAPI(1) : undefined;
     } catch (e) {
-        console.error(`Error reading file content for ${fileUri.fsPath}:`, e);
-        const message = e instanceof Error ? e.message : String(e);
-        return `// Error loading content for ${path.basename(fileUri.fsPath)}\n// ${message}`;
+        console.warn(`Could not get the Git extension API: ${e}`);
+        return undefined;
     }
 }
 
-function getNonce(): string {
-    return crypto.randomBytes(16).toString("base64");
-}
+// Sets `changed` on each leaf whose line was added or modified in the working tree relative to
+// ref; clears it when there's no ref. Deleted lines leave no reference behind, so they don't count.
+async function markChangedReferenceLeaves(leaves: ReferenceLeaf[], ref: string | undefined): Promise<void> {
+    if (!ref) {
+        leaves.forEach((leaf) => (leaf.changed = undefined));
+        return;
+    }
+    const git = await getGitApi();
+    const leavesByFile: Map<string, ReferenceLeaf[]> = new Map();
+    for (const leaf of leaves) {
+        if (!leavesByFile.has(leaf.uri)) {
+            leavesByFile.set(leaf.uri, []);
+        }
+        leavesByFile.get(leaf.uri)!.push(leaf);
+    }
 
-function findEnclosingSymbol(
-    symbols: vscode.DocumentSymbol[],
-    position: vscode.Position
-): vscode.DocumentSymbol | undefined {
-    for (const symbol of symbols) {
-        if (symbol.range.contains(position)) {
-            const childMatch = findEnclosingSymbol(symbol.children, position);
-            if (childMatch) {
-                return childMatch;
+    const fileQueue = Array.from(leavesByFile.values());
+    const processFiles = async () => {
+        while (fileQueue.length > 0) {
+            const fileLeaves = fileQueue.shift()!;
+            const uri = fileLeaves[0].originalLocation.uri;
+            const repository = uri.scheme === "file" ? git?.getRepository(uri) : undefined;
+            let changedLines: Set<number> | "all" | undefined;
+            if (repository) {
+                try {
+                    changedLines = await getChangedLines(repository, uri, ref);
+                } catch (e) {
+                    console.warn(`Could not diff ${uri.fsPath} with ${ref}: ${e}`);
+                }
             }
-            // We are interested in functions, methods, classes mostly for grouping
-            if (
-                symbol.kind === vscode.SymbolKind.Function ||
-                symbol.kind === vscode.SymbolKind.Method ||
-                symbol.kind === vscode.SymbolKind.Class || // Class can be a grouping level too
-                symbol.kind === vscode.SymbolKind.Constructor
-                // Consider if other kinds like Interface or Namespace make sense for grouping
-            ) {
-                return symbol;
+            for (const leaf of fileLeaves) {
+                leaf.changed = changedLines === "all" || (changedLines?.has(leaf.line) ?? false);
             }
         }
+    };
+    await Promise.all(
+        Array.from({ length: Math.min(GROUPING_CONCURRENCY, fileQueue.length) }, () => processFiles())
+    );
+}
+
+// Lines (0-indexed) of the working tree file that differ from ref; "all" for untracked files
+async function getChangedLines(
+    repository: GitRepository,
+    uri: vscode.Uri,
+    ref: string
+): Promise<Set<number> | "all"> {
+    const untracked = [...repository.state.workingTreeChanges, ...(repository.state.untrackedChanges ?? [])]
+        .some((change) => change.status === GIT_STATUS_UNTRACKED && change.uri.toString() === uri.toString());
+    if (untracked) {
+        return "all";
+    }
+    return parseChangedLines(await repository.diffWith(ref, uri.fsPath));
+}
+
+function parseChangedLines(patch: string): Set<number> {
+    const changedLines = new Set<number>();
+    let newLine = -1; // 0-indexed line in the working tree file; -1 until the first hunk
+    for (const line of patch.split(/\r?\n/)) {
+        const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line);
+        if (hunk) {
+            newLine = Number(hunk[1]) - 1;
+        } else if (newLine < 0) {
+            continue; // File header, including the "+++" line
+        } else if (line.startsWith("+")) {
+            changedLines.add(newLine++);
+        } else if (line.startsWith(" ")) {
+            newLine++;
+        }
     }
-    return undefined;
+    return changedLines;
+}
+
+// Workspace-relative path for files on disk, the full URI for anything else
+function getDisplayPath(uri: string): string {
+    const parsedUri = vscode.Uri.parse(uri);
+    return parsedUri.scheme === "file" ? vscode.workspace.asRelativePath(parsedUri) : uri;
+}
+
+function serializeReferencesAsMarkdown(nodes: TreeNode[], title: string, totalCount: number): string {
+    const visibleCount = countReferenceLeaves(nodes);
+    const lines: string[] = [
+        `# ${title}`,
+        "",
+        visibleCount === totalCount
+            ? `${visibleCount} results.`
+            : `${visibleCount} of ${totalCount} results (filtered).`,
+        "",
+    ];
+    const writeLeaf = (leaf: ReferenceLeaf, inFile: boolean) => {
+        // Outside of a file heading, each reference names its file
+        const location = `${inFile ? "Line" : `${getDisplayPath(leaf.uri)}, line`} ${leaf.line + 1}, column ${leaf.character + 1}`;
+        const notes = [
+            leaf.textual ? "textual" : leaf.accessKind,
+            leaf.diffStatus !== "unchanged" ? leaf.diffStatus : undefined,
+            leaf.reviewed ? "reviewed" : undefined,
+        ].filter(Boolean);
+        lines.push(`- ${location}${notes.length > 0 ? ` (${notes.join(", ")})` : ""}${leaf.reviewNote ? ` — ${leaf.reviewNote}` : ""}`);
+        lines.push(`  \`\`\`${path.extname(leaf.fullPath).slice(1)}`, `  ${leaf.previewText}`, "  ```");
+    };
+    const writeNodes = (treeNodes: TreeNode[], headingLevel: number, inFile: boolean) => {
+        for (const node of treeNodes) {
+            switch (node.type) {
+                case "directory":
+                    // File headings carry the full path
+                    writeNodes(node.children, headingLevel, inFile);
+                    break;
+                case "file":
+                    lines.push(`${"#".repeat(headingLevel)} ${getDisplayPath(node.uri)}`, "");
+                    writeNodes(node.children, headingLevel + 1, true);
+                    if (lines[lines.length - 1] !== "") {
+                        lines.push("");
+                    }
+                    break;
+                case "function":
+                    // Markdown has six heading levels; deeper symbols share the last one
+                    lines.push(
+                        `${"#".repeat(Math.min(headingLevel, 6))} \`${node.functionName}\`${node.uri ? ` in ${getDisplayPath(node.uri)}` : ""}`,
+                        ""
+                    );
+                    writeNodes(node.children, headingLevel + 1, inFile || node.uri !== undefined);
+                    if (lines[lines.length - 1] !== "") {
+                        lines.push("");
+                    }
+                    break;
+                case "leaf":
+                    writeLeaf(node, inFile);
+                    break;
+            }
+        }
+    };
+    writeNodes(nodes, 2, false);
+    return lines.join("\n");
+}
+
+function serializeReferencesAsJson(nodes: TreeNode[], mode: SearchMode, origin: SearchOrigin | undefined): string {
+    // Lines and columns are 1-based, as shown in editors
+    const toJson = (node: TreeNode): object => {
+        switch (node.type) {
+            case "directory":
+                return { type: node.type, name: node.dirName, path: node.fullPath, children: node.children.map(toJson) };
+            case "file":
+                return { type: node.type, name: node.fileName, path: getDisplayPath(node.uri), children: node.children.map(toJson) };
+            case "function":
+                return {
+                    type: node.type,
+                    name: node.functionName,
+                    kind: node.kindIcon.replace(/^symbol-/, ""),
+                    path: node.uri ? getDisplayPath(node.uri) : undefined,
+                    line: node.line + 1,
+                    children: node.children.map(toJson),
+                };
+            case "leaf":
+                return {
+                    type: node.type,
+                    path: getDisplayPath(node.uri),
+                    line: node.line + 1,
+                    column: node.character + 1,
+                    enclosingSymbol: node.enclosingSymbol,
+                    accessKind: node.accessKind,
+                    textual: node.textual,
+                    reviewed: node.reviewed,
+                    reviewNote: node.reviewNote,
+                    diffStatus: node.diffStatus,
+                    preview: node.previewText,
+                };
+        }
+    };
+    return JSON.stringify(
+        {
+            searchMode: mode,
+            symbol: origin?.symbolName,
+            origin: origin
+                ? { path: getDisplayPath(origin.uri.toString()), line: origin.position.line + 1, column: origin.position.character + 1 }
+                : undefined,
+            exportedAt: new Date().toISOString(),
+            count: countReferenceLeaves(nodes),
+            results: nodes.map(toJson),
+        },
+        null,
+        2
+    );
+}
+
+function serializeReferencesAsCsv(nodes: TreeNode[]): string {
+    const escapeCsvField = (value: string) =>
+        /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const rows = collectReferenceLeaves(nodes).map((leaf) =>
+        [
+            getDisplayPath(leaf.uri),
+            String(leaf.line + 1),
+            String(leaf.character + 1),
+            leaf.enclosingSymbol ?? "",
+            leaf.previewText,
+        ]
+            .map(escapeCsvField)
+            .join(",")
+    );
+    return ["path,line,column,enclosingSymbol,preview", ...rows].join("\r\n") + "\r\n";
 }
 
+interface GroupingOptions {
+    grouping?: ReferenceGrouping; // Defaults to nested folders
+    classifyAccess?: boolean; // Read/write access only makes sense for references
+    textual?: boolean; // Marks every leaf as a text search match
+    token?: vscode.CancellationToken;
+    onFileProcessed?: (processedFiles: number, totalFiles: number) => void;
+    onPartialResult?: (references: TreeNode[]) => void; // Called periodically while files are processed
+}
+
+const GROUPING_CONCURRENCY = 8;
+const PARTIAL_RESULT_INTERVAL_MS = 250;
+
 async function groupReferencesByDirectoryAndFile(
-    locations: vscode.Location[]
+    locations: vscode.Location[],
+    options: GroupingOptions = {}
 ): Promise<TreeNode[]> {
-    // Step 1: Collect all ReferenceLeaf objects with enriched data
-    const allReferenceLeaves: ReferenceLeaf[] = [];
+    // Step 1: Collect all ReferenceLeaf objects with enriched data. Work is done per file so
+    // each document and its symbols are only requested once, with a bounded number of
+    // files in flight. On cancellation, whatever was processed so far is returned.
+    const locationsByFile: Map<string, vscode.Location[]> = new Map();
     for (const loc of locations) {
-        const fullPath = loc.uri.fsPath;
-        const fileName = path.basename(fullPath);
-        let previewText = "";
-        let enclosingSymbolName: string | undefined;
+        const fileKey = loc.uri.toString();
+        if (!locationsByFile.has(fileKey)) {
+            locationsByFile.set(fileKey, []);
+        }
+        locationsByFile.get(fileKey)!.push(loc);
+    }
 
-        try {
-            const doc = await vscode.workspace.openTextDocument(loc.uri);
-            previewText = doc.lineAt(loc.range.start.line).text.trim();
+    const fileQueue = Array.from(locationsByFile.values());
+    const totalFiles = fileQueue.length;
+    const allReferenceLeaves: ReferenceLeaf[] = [];
+    let processedFiles = 0;
+    let lastPartialResultTime = Date.now();
 
-            const documentSymbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
-                'vscode.executeDocumentSymbolProvider',
-                doc.uri
+    const processFiles = async () => {
+        while (fileQueue.length > 0 && !options.token?.isCancellationRequested) {
+            const fileLocations = fileQueue.shift()!;
+            allReferenceLeaves.push(
+                ...(await createReferenceLeavesForFile(
+                    fileLocations,
+                    options.classifyAccess === true,
+                    options.textual === true
+                ))
             );
-            if (documentSymbols && documentSymbols.length > 0) {
-                const symbol = findEnclosingSymbol(documentSymbols, loc.range.start);
-                if (symbol) {
-                    enclosingSymbolName = symbol.name;
+            processedFiles++;
+            options.onFileProcessed?.(processedFiles, totalFiles);
+            if (
+                options.onPartialResult &&
+                fileQueue.length > 0 &&
+                Date.now() - lastPartialResultTime >= PARTIAL_RESULT_INTERVAL_MS
+            ) {
+                lastPartialResultTime = Date.now();
+                options.onPartialResult(buildReferenceTree(allReferenceLeaves, options.grouping));
+            }
+        }
+    };
+    await Promise.all(
+        Array.from({ length: Math.min(GROUPING_CONCURRENCY, totalFiles) }, () => processFiles())
+    );
+
+    return buildReferenceTree(allReferenceLeaves, options.grouping);
+}
+
+async function createReferenceLeavesForFile(
+    locations: vscode.Location[],
+    classifyAccess: boolean,
+    textual: boolean
+): Promise<ReferenceLeaf[]> {
+    const fileUri = locations[0].uri;
+    const fullPath = fileUri.fsPath;
+    const fileName = getDisplayFileName(fileUri);
+    let doc: vscode.TextDocument | undefined;
+    let documentSymbols: vscode.DocumentSymbol[] | undefined;
+    const highlightsByFile: Map<string, vscode.DocumentHighlight[]> = new Map();
+
+    try {
+        doc = await vscode.workspace.openTextDocument(fileUri);
+        documentSymbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+            'vscode.executeDocumentSymbolProvider',
+            doc.uri
+        );
+    } catch (e) {
+        console.warn(`Error processing references in ${fullPath}: ${e}`);
+    }
+
+    const groupingKinds = getGroupingSymbolKinds();
+    const leaves: ReferenceLeaf[] = [];
+    for (const loc of locations) {
+        let previewText = "[Error loading preview]";
+        let containingSymbols: EnclosingSymbol[] | undefined;
+        let accessKind: ReferenceAccessKind | undefined;
+
+        if (doc) {
+            try {
+                previewText = doc.lineAt(loc.range.start.line).text.trim();
+                if (documentSymbols && documentSymbols.length > 0) {
+                    const symbols = findEnclosingSymbolPath(documentSymbols, loc.range.start);
+                    if (symbols.length > 0) {
+                        containingSymbols = symbols.map((symbol) => ({
+                            name: symbol.name,
+                            kind: symbol.kind,
+                            kindIcon: symbolKindToCodicon(symbol.kind),
+                            line: symbol.range.start.line,
+                            character: symbol.range.start.character,
+                        }));
+                    }
+                }
+                if (classifyAccess) {
+                    accessKind = await classifyReferenceAccess(doc, loc.range, highlightsByFile);
                 }
+            } catch (e) {
+                console.warn(`Error processing reference in ${fullPath}: ${e}`);
             }
-        } catch (e) {
-            console.warn(`Error processing reference in ${fullPath}: ${e}`);
-            previewText = "[Error loading preview]";
         }
 
-        allReferenceLeaves.push({
+        const leaf: ReferenceLeaf = {
             type: "leaf",
+            id: String(nextReferenceLeafId++),
             uri: loc.uri.toString(),
             fileName: fileName, // For leaf itself
             fullPath: fullPath,
             line: loc.range.start.line,
             character: loc.range.start.character,
+            endLine: loc.range.end.line,
+            endCharacter: loc.range.end.character,
             previewText: previewText,
-            enclosingSymbol: enclosingSymbolName,
+            containingSymbols: containingSymbols,
+            accessKind: accessKind,
+            textual: textual || undefined,
             originalLocation: loc,
-        });
+        };
+        setLeafSymbolPath(leaf, groupingKinds);
+        leaves.push(leaf);
+    }
+    return leaves;
+}
+
+function buildReferenceTree(
+    allReferenceLeaves: ReferenceLeaf[],
+    grouping: ReferenceGrouping = "folders"
+): TreeNode[] {
+    if (grouping === "flat") {
+        return [...allReferenceLeaves].sort(compareReferenceLeaves);
+    }
+    if (grouping === "symbols") {
+        return groupReferencesBySymbol(allReferenceLeaves);
     }
 
-    // Step 2: Group ReferenceLeaf objects by file path
+    // Step 2: Group ReferenceLeaf objects by file URI
     const referencesByFile: Map<string, ReferenceLeaf[]> = new Map();
     for (const leaf of allReferenceLeaves) {
-        if (!referencesByFile.has(leaf.fullPath)) {
-            referencesByFile.set(leaf.fullPath, []);
+        if (!referencesByFile.has(leaf.uri)) {
+            referencesByFile.set(leaf.uri, []);
         }
-        referencesByFile.get(leaf.fullPath)!.push(leaf);
+        referencesByFile.get(leaf.uri)!.push(leaf);
     }
 
-    // Step 3: Create FileNode objects, with internal grouping by function
+    // Step 3: Create FileNode objects, with references nested in their enclosing symbols
     const fileNodes: FileNode[] = [];
-    for (const [fullPath, leaves] of referencesByFile) {
-        const fileName = path.basename(fullPath);
-        const fileChildren: FileChildNode[] = [];
-        const referencesByFunction: Map<string, ReferenceLeaf[]> = new Map();
-        const looseReferences: ReferenceLeaf[] = [];
-
-        for (const leaf of leaves) {
-            if (leaf.enclosingSymbol) {
-                if (!referencesByFunction.has(leaf.enclosingSymbol)) {
-                    referencesByFunction.set(leaf.enclosingSymbol, []);
-                }
-                referencesByFunction.get(leaf.enclosingSymbol)!.push(leaf);
-            } else {
-                looseReferences.push(leaf);
-            }
-        }
+    for (const [fileUri, leaves] of referencesByFile) {
+        fileNodes.push({
+            type: "file",
+            uri: fileUri,
+            fileName: leaves[0].fileName,
+            fullPath: leaves[0].fullPath,
+            children: nestReferencesInSymbols(leaves),
+        });
+    }
 
-        // Add function groups, sorted by function name
-        const sortedFunctionNames = Array.from(referencesByFunction.keys()).sort((a, b) => a.localeCompare(b));
-        for (const funcName of sortedFunctionNames) {
-            const funcReferences = referencesByFunction.get(funcName)!;
-            // Sort references within a function by line number
-            funcReferences.sort((a, b) => a.line - b.line);
-            fileChildren.push({
-                type: "function",
-                functionName: funcName,
-                references: funcReferences,
-            });
-        }
-        
-        // Add loose references (not in any function), sorted by line number
-        looseReferences.sort((a,b) => a.line - b.line);
-        fileChildren.push(...looseReferences);
-
-        if (fileChildren.length > 0) {
-            fileNodes.push({
-                type: "file",
-                fileName: fileName,
-                fullPath: fullPath,
-                children: fileChildren,
-            });
+    if (grouping === "files") {
+        for (const fileNode of fileNodes) {
+            const relativeDir = getRelativeDirectory(fileNode);
+            fileNode.description = relativeDir === "." ? undefined : relativeDir;
         }
+        return fileNodes.sort((a, b) => getDisplayPath(a.uri).localeCompare(getDisplayPath(b.uri)));
     }
 
-    // Step 4: Group FileNode objects by directory (similar to previous logic)
-    const dirData: { [dirPathKey: string]: { node: DirectoryNode; files: FileNode[] } } = {};
-    const rootFileNodes: FileNode[] = []; // Files directly in workspace root or if no workspace
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    const workspaceRootPaths = workspaceFolders
-        ? workspaceFolders.map((wf) => wf.uri.fsPath.replace(/\\/g, "/"))
-        : [];
-
+    // Step 4: Nest FileNode objects in a directory tree relative to the workspace folders
+    const rootNodes: (DirectoryNode | FileNode)[] = []; // Files in a workspace root, unsaved documents
+    const directories: Map<string, DirectoryNode> = new Map(); // Keyed by absolute path
     for (const fileNode of fileNodes) {
+        const relativeDir = getRelativeDirectory(fileNode);
+        if (relativeDir === ".") {
+            rootNodes.push(fileNode);
+            continue;
+        }
+        const segments = relativeDir.split("/").filter((segment) => segment.length > 0);
+        // Absolute path of each segment's directory, walking up from the file's directory
+        const dirPaths: string[] = [];
         let dirPath = path.dirname(fileNode.fullPath).replace(/\\/g, "/");
-        let isRootFile = workspaceRootPaths.some((root) => dirPath === root);
-
-        if (workspaceRootPaths.length === 0) { // No workspace folder open
-            // Treat files as root if they are not in a subdirectory relative to where VS Code might be "seeing" them
-            // This heuristic might need refinement if dealing with single files opened from deep paths.
-             if (!dirPath.includes(path.sep) && dirPath !== '.') isRootFile = true;
-             else if (dirPath === '.' || dirPath === path.basename(fileNode.fullPath)) isRootFile = true; // file in "root"
+        for (let i = segments.length - 1; i >= 0; i--) {
+            dirPaths[i] = dirPath;
+            dirPath = path.posix.dirname(dirPath);
         }
 
-
-        if (isRootFile) {
-            rootFileNodes.push(fileNode);
-        } else {
-            if (!dirData[dirPath]) {
-                dirData[dirPath] = {
-                    node: {
-                        type: "directory",
-                        dirName: path.basename(dirPath),
-                        fullPath: dirPath,
-                        children: [],
-                    },
-                    files: [],
+        let siblings = rootNodes;
+        segments.forEach((segment, index) => {
+            let directory = directories.get(dirPaths[index]);
+            if (!directory) {
+                directory = {
+                    type: "directory",
+                    dirName: segment,
+                    fullPath: dirPaths[index],
+                    children: [],
                 };
+                directories.set(dirPaths[index], directory);
+                siblings.push(directory);
             }
-            dirData[dirPath].files.push(fileNode);
-        }
+            siblings = directory.children;
+        });
+        siblings.push(fileNode);
     }
 
-    const finalTree: TreeNode[] = [
-        ...rootFileNodes.sort((a, b) => a.fileName.localeCompare(b.fileName)),
-    ];
-    const sortedDirPaths = Object.keys(dirData).sort((a, b) => a.localeCompare(b));
+    return compactAndSortDirectoryNodes(rootNodes);
+}
 
-    for (const dirPathKey of sortedDirPaths) {
-        const { node, files } = dirData[dirPathKey];
-        files.sort((a, b) => a.fileName.localeCompare(b.fileName));
-        node.children = files; // Directory children are FileNodes
-        finalTree.push(node);
+// "." for files in a workspace root and unsaved documents. With several workspace folders the
+// folder name comes first; files outside the workspace keep their absolute directory.
+function getRelativeDirectory(fileNode: FileNode): string {
+    if (vscode.Uri.parse(fileNode.uri).scheme === "untitled") {
+        return "."; // Unsaved documents have no directory
     }
+    return path.posix.dirname(vscode.workspace.asRelativePath(fileNode.fullPath).replace(/\\/g, "/"));
+}
 
-    finalTree.sort((a, b) => {
+function compactAndSortDirectoryNodes(nodes: (DirectoryNode | FileNode)[]): (DirectoryNode | FileNode)[] {
+    for (const node of nodes) {
+        if (node.type !== "directory") {
+            continue;
+        }
+        // Like VS Code's compact folders, a folder whose only child is a folder shares its row
+        while (node.children.length === 1 && node.children[0].type === "directory") {
+            const onlyChild: DirectoryNode = node.children[0];
+            node.dirName = `${node.dirName}/${onlyChild.dirName}`;
+            node.fullPath = onlyChild.fullPath;
+            node.children = onlyChild.children;
+        }
+        node.children = compactAndSortDirectoryNodes(node.children);
+    }
+    return nodes.sort((a, b) => {
         if (a.type === "directory" && b.type === "file") return -1;
         if (a.type === "file" && b.type === "directory") return 1;
         const nameA = a.type === "directory" ? a.dirName : a.fileName;
         const nameB = b.type === "directory" ? b.dirName : b.fileName;
         return nameA.localeCompare(nameB);
     });
+}
+
+function nestReferencesInSymbols(leaves: ReferenceLeaf[]): FileChildNode[] {
+    const rootChildren: FileChildNode[] = [];
+    // Keyed by the symbol path including positions, so same-named symbols stay apart
+    const groups: Map<string, FunctionGroupNode> = new Map();
+    for (const leaf of leaves) {
+        let siblings = rootChildren;
+        let groupKey = "";
+        for (const symbol of leaf.symbolPath ?? []) {
+            groupKey += `/${symbol.name}@${symbol.line}:${symbol.character}`;
+            let group = groups.get(groupKey);
+            if (!group) {
+                group = {
+                    type: "function",
+                    functionName: symbol.name,
+                    kindIcon: symbol.kindIcon,
+                    line: symbol.line,
+                    character: symbol.character,
+                    children: [],
+                };
+                groups.set(groupKey, group);
+                siblings.push(group);
+            }
+            siblings = group.children;
+        }
+        siblings.push(leaf);
+    }
+    sortBySourcePosition(rootChildren);
+    return rootChildren;
+}
+
+// Groups sort by where their symbol starts, references by where they are
+function sortBySourcePosition(nodes: FileChildNode[]) {
+    nodes.sort((a, b) => a.line - b.line || a.character - b.character);
+    for (const node of nodes) {
+        if (node.type === "function") {
+            sortBySourcePosition(node.children);
+        }
+    }
+}
+
+function groupReferencesBySymbol(allReferenceLeaves: ReferenceLeaf[]): TreeNode[] {
+    // One group per innermost symbol, labelled with the qualified path
+    const groups: Map<string, FunctionGroupNode> = new Map();
+    const looseReferences: ReferenceLeaf[] = [];
+    for (const leaf of allReferenceLeaves) {
+        const symbol = leaf.symbolPath?.[leaf.symbolPath.length - 1];
+        if (!symbol) {
+            looseReferences.push(leaf);
+            continue;
+        }
+        const groupKey = `${leaf.uri}#${leaf.enclosingSymbol}@${symbol.line}:${symbol.character}`;
+        if (!groups.has(groupKey)) {
+            groups.set(groupKey, {
+                type: "function",
+                functionName: leaf.enclosingSymbol!,
+                kindIcon: symbol.kindIcon,
+                line: symbol.line,
+                character: symbol.character,
+                uri: leaf.uri,
+                description: leaf.fileName,
+                children: [],
+            });
+        }
+        groups.get(groupKey)!.children.push(leaf);
+    }
+
+    const sortedGroups = Array.from(groups.values()).sort(
+        (a, b) =>
+            getDisplayPath(a.uri!).localeCompare(getDisplayPath(b.uri!)) ||
+            a.line - b.line ||
+            a.character - b.character
+    );
+    sortedGroups.forEach((group) => sortBySourcePosition(group.children));
+    return [...sortedGroups, ...looseReferences.sort(compareReferenceLeaves)];
+}
 
-    return finalTree.filter(
-        (n) =>
-            (n.type === "file" && n.children.length > 0) ||
-            (n.type === "directory" && n.children.length > 0)
+function compareReferenceLeaves(a: ReferenceLeaf, b: ReferenceLeaf): number {
+    return (
+        getDisplayPath(a.uri).localeCompare(getDisplayPath(b.uri)) ||
+        a.line - b.line ||
+        a.character - b.character
     );
 }
 